@@ -0,0 +1,2 @@
+// Compiled from src/homebridge-ui/server.ts; the Homebridge UI expects server.js next to public/
+require('../dist/homebridge-ui/server');
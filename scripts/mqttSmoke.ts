@@ -0,0 +1,150 @@
+import { parseArgs } from 'util';
+import { connectAsync } from 'mqtt';
+
+/**
+ * Development smoke test of the MQTT bridge against a local broker. With a broker and Homebridge running
+ * the plugin with the bridge pointed at it, e.g. a simulated unit:
+ *
+ *   docker run --rm -p 1883:1883 eclipse-mosquitto mosquitto -c /mosquitto-no-auth.conf
+ *   "simulate": true, "mqtt": { "enabled": true, "url": "mqtt://localhost:1883" }
+ *
+ *   npx ts-node scripts/mqttSmoke.ts --url mqtt://localhost:1883
+ *
+ * it checks the availability topic, the retained state and Home Assistant discovery of every unit, and that
+ * a speed command comes back in the state. The unit's speed is set back afterwards. Exits with 1 when a
+ * check fails.
+ */
+
+const TIMEOUT_MS = 15000;
+
+const USAGE = `Usage: ts-node scripts/mqttSmoke.ts [--url <broker>] [--username <user>] [--password <password>]
+  [--topic-prefix <prefix>] [--discovery-prefix <prefix>] [--no-discovery] [--device <id>] [--speed <percent>]
+`;
+
+const { values: options } = parseArgs({
+  options: {
+    'url': { type: 'string', default: 'mqtt://localhost:1883' },
+    'username': { type: 'string' },
+    'password': { type: 'string' },
+    'topic-prefix': { type: 'string', default: 'atrea' },
+    'discovery-prefix': { type: 'string', default: 'homeassistant' },
+    'no-discovery': { type: 'boolean' },
+    'device': { type: 'string' },
+    'speed': { type: 'string', default: '60' },
+    'help': { type: 'boolean', short: 'h' },
+  },
+});
+
+interface UnitState {
+  id: string;
+  on: boolean;
+  regime: string | null;
+  speedPercent: number;
+}
+
+const prefix = options['topic-prefix']!;
+const discoveryPrefix = options['discovery-prefix']!;
+const targetSpeed = Number(options.speed);
+
+// Last payload seen on each topic, retained ones included
+const messages = new Map<string, string>();
+const listeners = new Set<() => void>();
+
+function pass(text: string): void {
+  process.stdout.write(`ok    ${text}\n`);
+}
+
+/**
+ * Resolves with the first non-undefined result of check, which runs now and after every message
+ */
+function waitFor<T>(description: string, check: () => T | undefined): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const listener = () => {
+      const result = check();
+      if (result !== undefined) {
+        listeners.delete(listener);
+        clearTimeout(timer);
+        resolve(result);
+      }
+    };
+    const timer = setTimeout(() => {
+      listeners.delete(listener);
+      reject(new Error(`no ${description} within ${TIMEOUT_MS / 1000} s`));
+    }, TIMEOUT_MS);
+    listeners.add(listener);
+    listener();
+  });
+}
+
+function states(): UnitState[] {
+  return Array.from(messages)
+    .filter(([topic]) => topic.startsWith(`${prefix}/`) && topic.endsWith('/state'))
+    .map(([, payload]) => JSON.parse(payload) as UnitState);
+}
+
+function stateOf(id: string): UnitState | undefined {
+  const payload = messages.get(`${prefix}/${id}/state`);
+  return payload !== undefined ? JSON.parse(payload) : undefined;
+}
+
+async function main(): Promise<void> {
+  if (options.help || !Number.isInteger(targetSpeed) || targetSpeed < 1 || targetSpeed > 100) {
+    process.stdout.write(USAGE);
+    process.exitCode = options.help ? 0 : 2;
+    return;
+  }
+
+  const client = await connectAsync(options.url!, { username: options.username, password: options.password });
+  pass(`connected to ${options.url}`);
+  client.on('message', (topic, payload) => {
+    messages.set(topic, payload.toString());
+    listeners.forEach(listener => listener());
+  });
+
+  try {
+    await client.subscribeAsync([`${prefix}/status`, `${prefix}/+/state`, `${discoveryPrefix}/+/+/+/config`]);
+
+    await waitFor('"online" on the availability topic', () => messages.get(`${prefix}/status`) === 'online' || undefined);
+    pass(`${prefix}/status is online`);
+
+    const units = await waitFor('unit state', () => {
+      const found = states().filter(state => !options.device || state.id === options.device);
+      return found.length > 0 ? found : undefined;
+    });
+    units.forEach(state => pass(`${state.id}: state ${state.on ? `${state.regime}, ${state.speedPercent} %` : 'off'}`));
+
+    if (!options['no-discovery']) {
+      for (const { id } of units) {
+        const fan = await waitFor(`discovery of ${id}`, () => messages.get(`${discoveryPrefix}/fan/${id}/fan/config`));
+        const entities = Array.from(messages.keys()).filter(topic => topic.startsWith(`${discoveryPrefix}/`) && topic.includes(`/${id}/`));
+        if (JSON.parse(fan).state_topic !== `${prefix}/${id}/state`) {
+          throw new Error(`${id}: the discovered fan does not read ${prefix}/${id}/state`);
+        }
+        pass(`${id}: ${entities.length} discovery entities`);
+      }
+    }
+
+    const [{ id, on, speedPercent }] = units;
+    const speed = targetSpeed !== speedPercent ? targetSpeed : targetSpeed - 1;
+    await client.publishAsync(`${prefix}/${id}/speed/set`, String(speed));
+    const state = await waitFor(`state with speed ${speed} % after speed/set`, () => {
+      const current = stateOf(id);
+      return current?.on && Math.round(current.speedPercent) === speed ? current : undefined;
+    });
+    pass(`${id}: speed/set ${speed} came back as ${state.speedPercent} %`);
+
+    if (on) {
+      await client.publishAsync(`${prefix}/${id}/speed/set`, String(speedPercent));
+    } else {
+      await client.publishAsync(`${prefix}/${id}/power/set`, 'OFF');
+    }
+    pass(`${id}: ${on ? `speed set back to ${speedPercent} %` : 'switched back off'}`);
+  } finally {
+    await client.endAsync();
+  }
+}
+
+main().catch(error => {
+  process.stdout.write(`FAIL  ${error instanceof Error ? error.message : error}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,88 @@
+import { parseArgs } from 'util';
+import { FCallbackVal, ServerSerial } from 'modbus-serial';
+import { getModelProfile } from '../src/profiles';
+import { modbusExceptionCode } from '../src/modbusTransport';
+import { SimulatedUnit } from '../src/simulator';
+
+/**
+ * Development harness: simulated units answering as Modbus RTU slaves on a serial port, for trying the RTU
+ * transport without hardware. Paired with a pty pair, several units share one bus like on a real RS485 line:
+ *
+ *   socat -d -d pty,raw,echo=0,link=/tmp/atrea-plugin pty,raw,echo=0,link=/tmp/atrea-unit
+ *   npx ts-node scripts/rtuBus.ts /tmp/atrea-unit --unit-id 1 --unit-id 2 --model rd5
+ *
+ * and the plugin or the atrea tool on /tmp/atrea-plugin.
+ */
+
+// Answer for a unit ID nobody is listening on: "gateway target device failed to respond"
+const TARGET_FAILED_TO_RESPOND = 11;
+
+const USAGE = `Usage: ts-node scripts/rtuBus.ts <serial path> [--unit-id <id>]... [--model <model>] [--baud-rate <rate>] [--busy-rate <0-1>]
+`;
+
+const { values: options, positionals: [path] } = parseArgs({
+  options: {
+    'unit-id': { type: 'string', multiple: true },
+    'model': { type: 'string' },
+    'baud-rate': { type: 'string' },
+    'busy-rate': { type: 'string' },
+  },
+  allowPositionals: true,
+});
+
+if (!path) {
+  process.stderr.write(USAGE);
+  process.exit(2);
+}
+
+const profile = getModelProfile(options.model ?? 'rd5');
+const busyRate = options['busy-rate'] !== undefined ? Number(options['busy-rate']) : undefined;
+const units = new Map((options['unit-id'] ?? ['1']).map(id => [Number(id), new SimulatedUnit(profile.datapoints, { busyRate })]));
+
+async function answer<T>(unitId: number, request: (unit: SimulatedUnit) => Promise<T>): Promise<T> {
+  const unit = units.get(unitId);
+  try {
+    if (!unit) {
+      throw Object.assign(new Error(`No unit ${unitId} on the bus`), { modbusCode: TARGET_FAILED_TO_RESPOND });
+    }
+    return await request(unit);
+  } catch (error) {
+    process.stderr.write(`Unit ${unitId}: ${error instanceof Error ? error.message : error}\n`);
+    // The server sends the exception code found in modbusErrorCode
+    throw Object.assign(error instanceof Error ? error : new Error(String(error)), { modbusErrorCode: modbusExceptionCode(error) });
+  }
+}
+
+Promise.all(Array.from(units.values()).map(unit => unit.connect())).then(() => {
+  const server = new ServerSerial({
+    getHoldingRegister: (address: number, unitId: number) =>
+      answer(unitId, unit => unit.readHoldingRegisters(address, 1)).then(result => result.data[0]),
+    getInputRegister: (address: number, unitId: number) =>
+      answer(unitId, unit => unit.readInputRegisters(address, 1)).then(result => result.data[0]),
+    // Block reads are only taken as callbacks; with an error the values are not looked at
+    getMultipleHoldingRegisters: (address: number, length: number, unitId: number, callback: FCallbackVal<number[]>) => {
+      answer(unitId, unit => unit.readHoldingRegisters(address, length))
+        .then(result => callback(null, result.data), error => callback(error, []));
+    },
+    getMultipleInputRegisters: (address: number, length: number, unitId: number, callback: FCallbackVal<number[]>) => {
+      answer(unitId, unit => unit.readInputRegisters(address, length))
+        .then(result => callback(null, result.data), error => callback(error, []));
+    },
+    setRegister: (address: number, value: number, unitId: number) =>
+      answer(unitId, unit => unit.writeRegister(address, value)).then(() => undefined),
+  }, {
+    path,
+    baudRate: Number(options['baud-rate'] ?? 9600),
+    // Answer every unit ID and route it to its simulated unit
+    unitID: 255,
+  });
+
+  server.on('initialized', () => {
+    process.stderr.write(`${profile.name} units ${Array.from(units.keys()).join(', ')} answering on ${path}\n`);
+  });
+  server.on('error', error => {
+    process.stderr.write(`Serial port error: ${error}\n`);
+    process.exit(1);
+  });
+  process.on('SIGINT', () => server.close(() => process.exit(0)));
+});
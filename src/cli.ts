@@ -0,0 +1,592 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { OverrideSettings, SerialParity, SpeedRangeSettings, isOverrideMode, resolveOverride } from './platform';
+import { PLATFORM_NAME } from './settings';
+import { DeviceOptions, HRUConfig, HRUDeviceConfig, parseConfig } from './configSchema';
+import { ModbusSession, SessionSettings, resolveSessionSettings } from './modbusSession';
+import { modbusExceptionCode } from './modbusTransport';
+import { RegisterScanner, ScanRange, formatScanReport } from './scanner';
+import { planBlockReads } from './polling';
+import { describeSpeed, percentToSpeed } from './speedRange';
+import {
+  DATAPOINT_NAMES, DatapointName, HRUModel, REGIMES, RegimeName, RegisterDefinition, decodeFaults, decodeRegisterValue,
+  encodeRegisterValue, getModelProfile, getRegimeName, isKnownRegime,
+} from './profiles';
+
+/**
+ * Command-line tool talking to a unit directly, for setup and debugging without Homebridge.
+ *
+ * The connection comes from the Homebridge config.json or from options. The unit accepts a single
+ * Modbus master, so a running Homebridge with the plugin may have to be stopped first.
+ */
+
+const USAGE = `Usage: atrea <command> [arguments] [options]
+
+Commands:
+  status                  Read and decode all datapoints of the model
+  read <datapoint>...     Read named datapoints, e.g. read outdoorTemperature speed
+  write <datapoint> <v>   Write a datapoint in its own units, e.g. write temperatureSetpoint 21.5
+  regime [name]           Show or set the regime (${Object.keys(REGIMES).join(', ')})
+  speed [value]           Show or set the speed in register units (% or m³/h), 0 switches the unit off
+  override <mode>         Run a timed override (boost, fireplace, away) and restore the unit when it ends
+  dump                    Print all datapoints and the --range registers as JSON
+  tail [datapoint]...     Poll datapoints and print their values as they change, until Ctrl+C
+  scan                    Probe the known registers, propose a model and print a report
+
+Connection:
+  --config <file>         Homebridge config.json to take the connection from
+  --device <n>            Unit in the devices list of the config, from 1 (default 1)
+  --ip <address>          Modbus TCP address
+  --port <port>           Modbus TCP port (default 502)
+  --serial <path>         RS485 serial port for Modbus RTU
+  --baud-rate <rate>      Serial baud rate (default 9600)
+  --parity <parity>       none, even or odd (default none)
+  --unit-id <id>          Modbus unit ID (default 1)
+  --model <model>         Model profile (default generic)
+  --simulate              Talk to a simulated unit
+  --throttle <ms>         Delay between operations (default 2500, minimum 500)
+  --timeout <ms>          Connection timeout (default 15000)
+
+Command options:
+  --json                  Print JSON (status, read, write, scan)
+  --output <file>         Write the output to a file as well (dump, scan)
+  --duration <min>        Override duration (default from the config, or boost 30, fireplace 15, away 480)
+  --interval <s>          Poll interval of tail (default 10)
+  --range <type:from-to>  Read a register range as well (dump, scan), e.g. holding:1000-1010 (repeatable)
+`;
+
+const OPTIONS = {
+  'config': { type: 'string' },
+  'device': { type: 'string' },
+  'ip': { type: 'string' },
+  'port': { type: 'string' },
+  'serial': { type: 'string' },
+  'baud-rate': { type: 'string' },
+  'parity': { type: 'string' },
+  'unit-id': { type: 'string' },
+  'model': { type: 'string' },
+  'simulate': { type: 'boolean' },
+  'throttle': { type: 'string' },
+  'timeout': { type: 'string' },
+  'json': { type: 'boolean' },
+  'output': { type: 'string' },
+  'duration': { type: 'string' },
+  'interval': { type: 'string' },
+  'range': { type: 'string', multiple: true },
+  'help': { type: 'boolean', short: 'h' },
+} as const;
+
+const DEFAULT_TAIL_INTERVAL = 10;
+
+// Write-only trigger, reading it tells nothing
+const STATUS_SKIPPED: DatapointName[] = ['filterReset'];
+
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+interface CommandContext {
+  session: ModbusSession;
+  settings: SessionSettings;
+  // Unit configuration the connection was made from, with the command-line options applied
+  device: DeviceOptions;
+  speedRange: SpeedRangeSettings;
+  args: string[];
+  options: CliOptions;
+}
+
+/**
+ * Decoded value of one datapoint, or why it could not be read
+ */
+interface DatapointReading {
+  datapoint: DatapointName;
+  register: string;
+  raw?: number;
+  value?: number;
+  text?: string;
+  error?: string;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+function parseNumber(value: string | undefined, option: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (value === '' || !Number.isInteger(number) || number < 0) {
+    throw new UsageError(`--${option} must be a whole number, got "${value}"`);
+  }
+  return number;
+}
+
+function parseRange(value: string): ScanRange {
+  const match = /^(holding|input):(\d+)-(\d+)$/.exec(value);
+  if (!match || Number(match[3]) < Number(match[2]) || Number(match[3]) > 65535) {
+    throw new UsageError(`Invalid range "${value}". Expected e.g. holding:1000-1010 or input:10200-10220`);
+  }
+  const start = Number(match[2]);
+  return { type: match[1] as ScanRange['type'], start, count: Number(match[3]) - start + 1 };
+}
+
+/**
+ * Platform block from a Homebridge config.json
+ */
+function loadPlatformConfig(path: string): HRUConfig {
+  let config: { platforms?: Array<{ platform?: string }> };
+  try {
+    config = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const platform = (config.platforms || []).find(entry => entry.platform === PLATFORM_NAME);
+  if (!platform) {
+    throw new UsageError(`${path} has no ${PLATFORM_NAME} platform`);
+  }
+  return platform as HRUConfig;
+}
+
+/**
+ * Connection of the selected unit from the config file, with command-line options on top
+ */
+function openSession(options: CliOptions, args: string[]): CommandContext {
+  const platform: HRUConfig = options.config ? loadPlatformConfig(options.config) : {};
+  const index = (parseNumber(options.device, 'device') ?? 1) - 1;
+  const entry: HRUDeviceConfig | undefined = Array.isArray(platform.devices) ? platform.devices[index] : platform;
+  if (!entry) {
+    throw new UsageError(`Device ${index + 1} is not configured in ${options.config}`);
+  }
+
+  const unit: HRUDeviceConfig = {
+    ...entry,
+    ...(options.ip !== undefined && { transport: 'tcp', ip: options.ip }),
+    ...(options.serial !== undefined && { transport: 'rtu', serialPath: options.serial }),
+    ...(options.port !== undefined && { port: parseNumber(options.port, 'port') }),
+    ...(options['baud-rate'] !== undefined && { baudRate: parseNumber(options['baud-rate'], 'baud-rate') }),
+    ...(options.parity !== undefined && { parity: options.parity as SerialParity }),
+    ...(options['unit-id'] !== undefined && { unitId: parseNumber(options['unit-id'], 'unit-id') }),
+    ...(options.model !== undefined && { model: options.model as HRUModel }),
+    ...(options.simulate && { simulate: true }),
+  };
+  if (!unit.simulate && unit.transport !== 'rtu' && !unit.ip) {
+    throw new UsageError('No unit given. Use --config, --ip, --serial or --simulate');
+  }
+
+  // The options go through the same validation as the configuration they replace
+  const { config, devices, errors, warnings } = parseConfig({
+    ...platform,
+    ...(Array.isArray(platform.devices)
+      ? { devices: platform.devices.map((candidate, position) => position === index ? unit : candidate) }
+      : unit),
+    ...(options.timeout !== undefined && { connectionTimeout: parseNumber(options.timeout, 'timeout') }),
+    ...(options.throttle !== undefined && { operationThrottle: parseNumber(options.throttle, 'throttle') }),
+  });
+  warnings.forEach(warning => process.stderr.write(`Warning: ${warning}\n`));
+  if (errors.length > 0) {
+    throw new UsageError(`Invalid configuration:\n${errors.map(error => `  ${error}`).join('\n')}`);
+  }
+
+  const device = devices[Array.isArray(platform.devices) ? index : 0];
+  const settings = resolveSessionSettings(device, config);
+  return {
+    session: new ModbusSession(settings),
+    settings,
+    device,
+    speedRange: device.speedRange,
+    args,
+    options,
+  };
+}
+
+/**
+ * Ctrl+C ends a long-running command gracefully; a second one exits right away
+ */
+function interruptSignal(): AbortSignal {
+  const controller = new AbortController();
+  process.on('SIGINT', () => {
+    if (controller.signal.aborted) {
+      process.exit(130);
+    }
+    process.stderr.write('\nStopping, press Ctrl+C again to exit immediately\n');
+    controller.abort();
+  });
+  return controller.signal;
+}
+
+/**
+ * Wait, returning early when the signal fires
+ */
+function pause(ms: number, signal: AbortSignal): Promise<void> {
+  if (signal.aborted) {
+    return Promise.resolve();
+  }
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timeout);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timeout = setTimeout(done, ms);
+    signal.addEventListener('abort', done);
+  });
+}
+
+function registerLabel(definition: RegisterDefinition): string {
+  return `${definition.type === 'holding' ? 'H' : 'I'}${definition.address}`;
+}
+
+function findDatapoint({ settings }: CommandContext, name: string): { datapoint: DatapointName; definition: RegisterDefinition } {
+  const datapoint = DATAPOINT_NAMES.find(candidate => candidate === name);
+  if (!datapoint) {
+    throw new UsageError(`Unknown datapoint "${name}". Known datapoints: ${DATAPOINT_NAMES.join(', ')}`);
+  }
+  const definition = settings.registers[datapoint];
+  if (!definition) {
+    throw new UsageError(`The model has no register for ${datapoint}; set one in "registers" of the config`);
+  }
+  return { datapoint, definition };
+}
+
+function describeValue(context: CommandContext, datapoint: DatapointName, raw: number, value: number): string {
+  const profile = getModelProfile(context.device.model);
+  switch (datapoint) {
+    case 'regime': {
+      const name = getRegimeName(raw);
+      return name ? REGIMES[name].name : 'unknown regime';
+    }
+    case 'speed':
+      return describeSpeed(context.speedRange, value);
+    case 'alarms':
+    case 'warnings': {
+      const faults = decodeFaults(raw, datapoint === 'alarms' ? profile.alarmBits : profile.warningBits);
+      return faults.map(fault => fault.description).join(', ') || 'none';
+    }
+    default: {
+      const unit = context.settings.registers[datapoint]?.unit;
+      return unit ? `${value} ${unit}` : String(value);
+    }
+  }
+}
+
+/**
+ * Read datapoints in as few block reads as possible. A block the unit refuses is read register by register,
+ * so one missing register does not hide the others.
+ */
+async function readDatapoints(context: CommandContext, datapoints: DatapointName[]): Promise<DatapointReading[]> {
+  const { session, settings } = context;
+  const raws = new Map<DatapointName, number>();
+  const errors = new Map<DatapointName, string>();
+
+  // An exception answer leaves the connection usable; anything else ends the command
+  const tryRead = async (type: RegisterDefinition['type'], address: number, length: number): Promise<number[] | number> => {
+    try {
+      return await session.read(type, address, length);
+    } catch (error) {
+      const code = modbusExceptionCode(error);
+      if (code === undefined) {
+        throw error;
+      }
+      return code;
+    }
+  };
+
+  for (const block of planBlockReads(settings.registers, datapoints)) {
+    const data = await tryRead(block.type, block.address, block.length);
+    for (const { datapoint, offset } of block.datapoints) {
+      const result = Array.isArray(data) || block.length === 1 ? data : await tryRead(block.type, block.address + offset, 1);
+      if (Array.isArray(result)) {
+        raws.set(datapoint, result[Array.isArray(data) ? offset : 0]);
+      } else {
+        errors.set(datapoint, `not available (exception ${result})`);
+      }
+    }
+  }
+
+  return datapoints.filter(datapoint => settings.registers[datapoint]).map(datapoint => {
+    const definition = settings.registers[datapoint]!;
+    const raw = raws.get(datapoint);
+    if (raw === undefined) {
+      return { datapoint, register: registerLabel(definition), error: errors.get(datapoint) };
+    }
+    const value = decodeRegisterValue(raw, definition);
+    return { datapoint, register: registerLabel(definition), raw, value, text: describeValue(context, datapoint, raw, value) };
+  });
+}
+
+function printReadings(readings: DatapointReading[], options: CliOptions): void {
+  if (options.json) {
+    const result = Object.fromEntries(readings.map(({ datapoint, ...reading }) => [datapoint, reading]));
+    process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+    return;
+  }
+
+  readings.forEach(reading => {
+    process.stdout.write(`${reading.datapoint.padEnd(21)} ${reading.register.padEnd(7)} ${String(reading.raw ?? '-').padStart(6)}  ${
+      reading.text ?? reading.error}\n`);
+  });
+}
+
+function statusDatapoints({ settings }: CommandContext): DatapointName[] {
+  return DATAPOINT_NAMES.filter(datapoint => settings.registers[datapoint] && !STATUS_SKIPPED.includes(datapoint));
+}
+
+async function readRaw({ session, settings }: CommandContext, datapoint: 'regime' | 'speed'): Promise<number> {
+  const definition = settings.registers[datapoint]!;
+  const [raw] = await session.read(definition.type, definition.address);
+  return raw;
+}
+
+async function writeRegime(context: CommandContext, regime: RegimeName): Promise<void> {
+  await context.session.write(context.settings.registers.regime!.address, REGIMES[regime].value);
+  process.stdout.write(`Regime set to ${REGIMES[regime].name}\n`);
+}
+
+/**
+ * Write the speed in register units the way the plugin does: switch the unit on first when it is off,
+ * and switch it off for 0 when the unit rejects speeds below its minimum
+ */
+async function writeSpeed(context: CommandContext, speed: number): Promise<void> {
+  const { session, settings, device, speedRange } = context;
+  if (speed === 0 && speedRange.min > 0) {
+    await writeRegime(context, 'off');
+    return;
+  }
+
+  if (speed > 0 && await readRaw(context, 'regime') === REGIMES.off.value) {
+    await writeRegime(context, device.onRegime);
+  }
+  await session.write(settings.registers.speed!.address, speed);
+  process.stdout.write(`Speed set to ${describeSpeed(speedRange, speed)}\n`);
+}
+
+async function status(context: CommandContext): Promise<void> {
+  const readings = await readDatapoints(context, statusDatapoints(context));
+  if (!context.options.json) {
+    process.stdout.write(`${getModelProfile(context.device.model).name} at ${context.session.address}\n\n`);
+  }
+  printReadings(readings, context.options);
+}
+
+async function read(context: CommandContext): Promise<void> {
+  if (context.args.length === 0) {
+    throw new UsageError('Name the datapoints to read, e.g. atrea read outdoorTemperature speed');
+  }
+  const datapoints = context.args.map(name => findDatapoint(context, name).datapoint);
+  printReadings(await readDatapoints(context, datapoints), context.options);
+}
+
+async function write(context: CommandContext): Promise<void> {
+  const [name, text] = context.args;
+  if (name === undefined || text === undefined) {
+    throw new UsageError('Give a datapoint and a value, e.g. atrea write temperatureSetpoint 21.5');
+  }
+  const { datapoint, definition } = findDatapoint(context, name);
+  if (definition.type !== 'holding' || !definition.writable) {
+    throw new UsageError(`${datapoint} is not writable`);
+  }
+
+  const value = Number(text);
+  const raw = definition.scale !== undefined ? Math.round(value / definition.scale) : Math.round(value);
+  const [low, high] = definition.signed ? [-32768, 32767] : [0, 65535];
+  if (text === '' || !Number.isFinite(value) || raw < low || raw > high) {
+    throw new UsageError(`Invalid value "${text}" for ${datapoint}`);
+  }
+
+  await context.session.write(definition.address, encodeRegisterValue(value, definition));
+  printReadings(await readDatapoints(context, [datapoint]), context.options);
+}
+
+async function regime(context: CommandContext): Promise<void> {
+  const [name] = context.args;
+  if (name === undefined) {
+    const raw = await readRaw(context, 'regime');
+    process.stdout.write(`${describeValue(context, 'regime', raw, raw)} (${raw})\n`);
+    return;
+  }
+  if (!isKnownRegime(name)) {
+    throw new UsageError(`Unknown regime "${name}". Must be one of ${Object.keys(REGIMES).join(', ')}`);
+  }
+  await writeRegime(context, name);
+}
+
+async function speed(context: CommandContext): Promise<void> {
+  const [text] = context.args;
+  const { speedRange } = context;
+  if (text === undefined) {
+    process.stdout.write(`${describeSpeed(speedRange, await readRaw(context, 'speed'))}\n`);
+    return;
+  }
+
+  const value = Number(text);
+  if (text === '' || !Number.isInteger(value) || (value !== 0 && (value < speedRange.min || value > speedRange.max))) {
+    throw new UsageError(`Speed must be 0 or ${speedRange.min}-${speedRange.max}, got "${text}"`);
+  }
+  await writeSpeed(context, value);
+}
+
+/**
+ * Run a timed override in the foreground and restore the regime and speed from before it when it ends,
+ * also when it is ended early with Ctrl+C
+ */
+async function override(context: CommandContext): Promise<void> {
+  const [mode] = context.args;
+  if (mode === undefined || !isOverrideMode(mode)) {
+    throw new UsageError(`Give an override mode: boost, fireplace or away${mode !== undefined ? `, got "${mode}"` : ''}`);
+  }
+  const duration = parseNumber(context.options.duration, 'duration');
+  if (duration === 0) {
+    throw new UsageError('--duration must be at least 1 minute');
+  }
+  const settings: OverrideSettings = { ...resolveOverride(mode, context.device.overrides[mode]), ...(duration && { duration }) };
+
+  const previousRegime = await readRaw(context, 'regime');
+  const previousSpeed = await readRaw(context, 'speed');
+  const signal = interruptSignal();
+
+  process.stdout.write(`Starting ${settings.name} for ${settings.duration} min\n`);
+  await writeRegime(context, settings.regime);
+  if (settings.speed !== undefined) {
+    await writeSpeed(context, percentToSpeed(context.speedRange, settings.speed));
+  }
+
+  const endsAt = Date.now() + settings.duration * 60000;
+  process.stderr.write(`Running until ${new Date(endsAt).toLocaleTimeString()}, press Ctrl+C to end it earlier\n`);
+  await pause(endsAt - Date.now(), signal);
+
+  process.stdout.write(`Ending ${settings.name}, restoring ${describeValue(context, 'regime', previousRegime, previousRegime)}\n`);
+  await context.session.write(context.settings.registers.regime!.address, previousRegime);
+  if (previousRegime !== REGIMES.off.value) {
+    await context.session.write(context.settings.registers.speed!.address, previousSpeed);
+  }
+}
+
+async function dump(context: CommandContext): Promise<void> {
+  const { session, device, options } = context;
+  const ranges = (options.range || []).map(parseRange);
+  const readAt = new Date().toISOString();
+
+  const readings = await readDatapoints(context, statusDatapoints(context));
+  const probes = ranges.length > 0
+    ? (await new RegisterScanner(session, session.address).scan({ ranges, knownRegisters: false })).probes
+    : [];
+
+  const output = JSON.stringify({
+    connection: session.address,
+    model: getModelProfile(device.model).id,
+    readAt,
+    datapoints: Object.fromEntries(readings.map(({ datapoint, ...reading }) => [datapoint, reading])),
+    registers: probes.map(({ type, address, status, raw, code }) => ({ type, address, status, raw, code })),
+  }, null, 2) + '\n';
+  process.stdout.write(output);
+  if (options.output) {
+    writeFileSync(options.output, output);
+    process.stderr.write(`Dump written to ${options.output}\n`);
+  }
+}
+
+/**
+ * Poll until Ctrl+C, printing a line with the datapoints whose value changed since the previous poll
+ */
+async function tail(context: CommandContext): Promise<void> {
+  const datapoints = context.args.length > 0
+    ? context.args.map(name => findDatapoint(context, name).datapoint)
+    : statusDatapoints(context);
+  const interval = parseNumber(context.options.interval, 'interval') ?? DEFAULT_TAIL_INTERVAL;
+  const signal = interruptSignal();
+  const last = new Map<DatapointName, string>();
+
+  while (!signal.aborted) {
+    const startTime = Date.now();
+    const changes = (await readDatapoints(context, datapoints))
+      .map(reading => ({ datapoint: reading.datapoint, text: reading.text ?? reading.error ?? '-' }))
+      .filter(({ datapoint, text }) => last.get(datapoint) !== text);
+
+    if (changes.length > 0) {
+      changes.forEach(({ datapoint, text }) => last.set(datapoint, text));
+      const line = changes.map(({ datapoint, text }) => `${datapoint}=${text}`).join('  ');
+      process.stdout.write(`${new Date().toLocaleTimeString()}  ${line}\n`);
+    }
+    await pause(startTime + interval * 1000 - Date.now(), signal);
+  }
+}
+
+async function scan(context: CommandContext): Promise<void> {
+  const { session, options } = context;
+  const ranges = (options.range || []).map(parseRange);
+  let probed = 0;
+
+  const scanner = new RegisterScanner(session, session.address);
+  const report = await scanner.scan({
+    ranges,
+    onProbe: () => {
+      probed++;
+      if (process.stderr.isTTY) {
+        process.stderr.write(`\rScanning ${session.address}: ${probed} registers`);
+      }
+    },
+  });
+  if (process.stderr.isTTY) {
+    process.stderr.write('\n');
+  }
+
+  const output = options.json ? JSON.stringify(report, null, 2) + '\n' : formatScanReport(report);
+  process.stdout.write(output);
+  if (options.output) {
+    writeFileSync(options.output, output);
+    process.stderr.write(`Report written to ${options.output}\n`);
+  }
+}
+
+const COMMANDS: Record<string, (context: CommandContext) => Promise<void>> = {
+  status,
+  read,
+  write,
+  regime,
+  speed,
+  override,
+  dump,
+  tail,
+  scan,
+};
+
+async function main(): Promise<number> {
+  let parsed: { values: CliOptions; positionals: string[] };
+  try {
+    parsed = parseArgs({ options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values: options, positionals: [command, ...args] } = parsed;
+  if (options.help || !command) {
+    process.stdout.write(USAGE);
+    return options.help ? 0 : 2;
+  }
+
+  const run = COMMANDS[command];
+  if (!run) {
+    process.stderr.write(`Unknown command "${command}"\n\n${USAGE}`);
+    return 2;
+  }
+
+  let context: CommandContext | undefined;
+  try {
+    context = openSession(options, args);
+    await context.session.open();
+    await run(context);
+    return 0;
+  } catch (error) {
+    process.stderr.write(`Error: ${error instanceof Error ? error.message : error}\n`);
+    return error instanceof UsageError ? 2 : 1;
+  } finally {
+    await context?.session.close();
+  }
+}
+
+main().then(code => process.exit(code));
@@ -0,0 +1,1141 @@
+import {
+  AnalogInput, ClimateServiceType, SerialParity, ServiceType, SpeedUnit, TemperatureProbe, Transport,
+} from './platform';
+import { PLATFORM_NAME } from './settings';
+import { Weekday } from './schedule';
+import { DATAPOINT_NAMES, DEFAULT_MODEL, DEFAULT_ON_REGIME, DatapointName, HRUModel, RegimeName, RegisterType } from './profiles';
+
+/**
+ * Declarative schema of the plugin configuration.
+ *
+ * Every setting is declared once: its title and description for the Homebridge UI, its default,
+ * its limits and the rules spanning several settings. The platform, the command-line tool and the
+ * configuration UI server validate with it and read the values it resolves, and config.schema.json
+ * is generated from it (npm run schema), so limits and defaults cannot drift apart.
+ */
+
+// Largest devices list one platform instance serves
+export const MAX_DEVICES = 16;
+
+/**
+ * Collects problems found while parsing; the key, when given, names a setting below the current one
+ */
+export interface ConfigReport {
+  error(message: string, key?: string): void;
+  warn(message: string, key?: string): void;
+}
+
+interface FieldOptions<Out, In = Out> {
+  title?: string;
+  description?: string;
+  placeholder?: string;
+  // Applied to a missing setting and written to config.schema.json
+  default?: Out;
+  // Applied to a missing setting but left out of config.schema.json; a text fallback is shown as the placeholder
+  fallback?: Out;
+  required?: boolean;
+  // Body of the Homebridge UI function deciding whether the field is shown
+  condition?: string;
+  // Former name still read when the setting itself is missing
+  alias?: string;
+  // Rules beyond type and limits, run on a valid value; input is the value as configured
+  check?(value: Out, report: ConfigReport, input: In): void;
+}
+
+type Choice<T extends string | number> = readonly [value: T, title: string];
+
+type FieldSpec =
+  | { kind: 'integer' | 'number'; minimum?: number; maximum?: number; clamp?: boolean; off?: number }
+  | { kind: 'string'; pattern?: RegExp; patternHint?: string }
+  | { kind: 'boolean' }
+  | { kind: 'enum'; choices: ReadonlyArray<Choice<string | number>> }
+  | { kind: 'object'; properties: Properties; unknownKeys?: 'error' | 'warn'; ignoredKeys?: string[]; optional?: boolean }
+  | { kind: 'array'; items: AnyField; maxItems?: number; uniqueItems?: boolean };
+
+/**
+ * One setting; the type parameters only carry the configured and the resolved value type for inference
+ */
+type Field<In, Out, D extends boolean> = FieldSpec & FieldOptions<Out, In> & {
+  readonly types?: { input: In; output: Out; defaulted: D };
+};
+
+type AnyField = Field<unknown, unknown, boolean>;
+type Properties = Record<string, AnyField>;
+
+type InputOf<F extends AnyField> = NonNullable<F['types']>['input'];
+type OutputOf<F extends AnyField> = NonNullable<F['types']>['output'];
+
+// Settings always present after parsing: those with a default, a fallback or required
+type DefaultedKeys<P extends Properties> = { [K in keyof P]: NonNullable<P[K]['types']>['defaulted'] extends true ? K : never }[keyof P];
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+type ObjectInput<P extends Properties> = { [K in keyof P]?: InputOf<P[K]> };
+type ObjectOutput<P extends Properties> = Simplify<
+  { [K in DefaultedKeys<P>]: OutputOf<P[K]> } & { [K in Exclude<keyof P, DefaultedKeys<P>>]?: OutputOf<P[K]> }
+>;
+
+type Defaulted<O> = O extends { default: unknown }
+  ? true
+  : O extends { fallback: unknown } ? true : O extends { required: true } ? true : false;
+
+interface NumberOptions extends FieldOptions<number> {
+  minimum?: number;
+  maximum?: number;
+  // Out-of-range values are moved into the range with a warning instead of rejected
+  clamp?: boolean;
+  // Value outside the range that switches the feature off
+  off?: number;
+}
+
+interface StringOptions extends FieldOptions<string> {
+  pattern?: RegExp;
+  // Expected format in error messages, e.g. "a time as HH:MM"
+  patternHint?: string;
+}
+
+interface ObjectOptions<P extends Properties> extends FieldOptions<ObjectOutput<P>, ObjectInput<P>> {
+  unknownKeys?: 'error' | 'warn';
+  // Keys set by Homebridge itself
+  ignoredKeys?: string[];
+  // Left out when missing instead of created with the defaults of its settings
+  optional?: boolean;
+}
+
+interface ArrayOptions<F extends AnyField> extends FieldOptions<OutputOf<F>[], InputOf<F>[]> {
+  maxItems?: number;
+  uniqueItems?: boolean;
+}
+
+function field<In, Out, D extends boolean>(spec: FieldSpec & FieldOptions<Out, In>): Field<In, Out, D> {
+  return spec as Field<In, Out, D>;
+}
+
+function integer<const O extends NumberOptions>(options: O): Field<number, number, Defaulted<O>> {
+  return field({ kind: 'integer', ...options });
+}
+
+function number<const O extends NumberOptions>(options: O): Field<number, number, Defaulted<O>> {
+  return field({ kind: 'number', ...options });
+}
+
+function string<const O extends StringOptions>(options: O): Field<string, string, Defaulted<O>> {
+  return field({ kind: 'string', ...options });
+}
+
+function boolean<const O extends FieldOptions<boolean>>(options: O): Field<boolean, boolean, Defaulted<O>> {
+  return field({ kind: 'boolean', ...options });
+}
+
+function enumeration<T extends string | number, const O extends FieldOptions<T>>(
+  choices: ReadonlyArray<Choice<T>>,
+  options: O,
+): Field<T, T, Defaulted<O>> {
+  return field({ kind: 'enum', choices, ...options });
+}
+
+function object<const P extends Properties, const O extends ObjectOptions<P>>(
+  properties: P,
+  options?: O,
+): Field<ObjectInput<P>, ObjectOutput<P>, O extends { optional: true } ? false : true> {
+  return field({ kind: 'object', properties, ...options });
+}
+
+function array<const F extends AnyField, const O extends ArrayOptions<F>>(
+  items: F,
+  options: O,
+): Field<InputOf<F>[], OutputOf<F>[], Defaulted<O>> {
+  return field({ kind: 'array', items, ...options });
+}
+
+// **CHOICES** (titles shown in the Homebridge UI)
+
+const MODEL_CHOICES: Choice<HRUModel>[] = [
+  ['generic', 'Obecná jednotka (Režim=1001, Rychlost=1000)'],
+  ['rd5', 'ATREA RD5 / nRD5 / aM'],
+  ['duplex-ec5', 'ATREA DUPLEX EC5/ECV5'],
+];
+
+const REGIME_CHOICES: Choice<RegimeName>[] = [
+  ['off', 'Vypnuto'],
+  ['automatic', 'Automatický'],
+  ['ventilation', 'Větrání'],
+  ['circulationVentilation', 'Cirkulace s větráním'],
+  ['circulation', 'Cirkulace'],
+  ['nightPrecooling', 'Noční předchlazení'],
+  ['disbalance', 'Disbalance'],
+  ['overpressure', 'Přetlak'],
+];
+
+// Regimes a switch or override can turn the unit on with
+const ON_REGIME_CHOICES = REGIME_CHOICES.filter(([regime]) => regime !== 'off');
+
+const TRANSPORT_CHOICES: Choice<Transport>[] = [
+  ['tcp', 'Modbus TCP (Ethernet)'],
+  ['rtu', 'Modbus RTU (RS485)'],
+];
+
+const BAUD_RATE_CHOICES: Choice<number>[] = [1200, 2400, 4800, 9600, 19200, 38400, 57600, 115200].map(rate => [rate, String(rate)]);
+
+const PARITY_CHOICES: Choice<SerialParity>[] = [
+  ['none', 'Žádná'],
+  ['even', 'Sudá'],
+  ['odd', 'Lichá'],
+];
+
+const DATA_BITS_CHOICES: Choice<number>[] = [[7, '7'], [8, '8']];
+const STOP_BITS_CHOICES: Choice<number>[] = [[1, '1'], [2, '2']];
+
+// Serial settings the units on one bus have in common
+const SERIAL_SETTINGS = ['baudRate', 'parity', 'dataBits', 'stopBits'] as const;
+
+const REGISTER_TYPE_CHOICES: Choice<RegisterType>[] = [
+  ['holding', 'Holding register'],
+  ['input', 'Input register'],
+];
+
+const SERVICE_TYPE_CHOICES: Choice<ServiceType>[] = [
+  ['fan', 'Ventilátor (Fan)'],
+  ['fanv2', 'Ventilátor s režimem Auto (Fanv2)'],
+  ['airPurifier', 'Čistička vzduchu (AirPurifier)'],
+];
+
+const SPEED_UNIT_CHOICES: Choice<SpeedUnit>[] = [
+  ['percent', '%'],
+  ['m3h', 'm³/h'],
+];
+
+const ANALOG_INPUT_CHOICES: Choice<AnalogInput>[] = [
+  ['in1', 'IN1'],
+  ['in2', 'IN2'],
+];
+
+const POLLUTANT_CHOICES: Choice<'co2' | 'voc'>[] = [
+  ['co2', 'CO2 (ppm)'],
+  ['voc', 'VOC (µg/m³)'],
+];
+
+const CLIMATE_SERVICE_TYPE_CHOICES: Choice<ClimateServiceType>[] = [
+  ['heaterCooler', 'Topení/chlazení (HeaterCooler)'],
+  ['thermostat', 'Termostat (Thermostat)'],
+];
+
+const TEMPERATURE_PROBE_CHOICES: Choice<TemperatureProbe>[] = [
+  ['outdoor', 'Venkovní'],
+  ['supply', 'Přiváděný vzduch'],
+  ['extract', 'Odváděný vzduch'],
+  ['exhaust', 'Odpadní vzduch'],
+  ['indoor', 'Vnitřní'],
+];
+
+const WEEKDAY_CHOICES: Choice<Weekday>[] = [
+  ['mon', 'Pondělí'],
+  ['tue', 'Úterý'],
+  ['wed', 'Středa'],
+  ['thu', 'Čtvrtek'],
+  ['fri', 'Pátek'],
+  ['sat', 'Sobota'],
+  ['sun', 'Neděle'],
+];
+
+const LOG_LEVEL_CHOICES: Choice<'error' | 'warn' | 'info' | 'debug'>[] = [
+  ['error', 'Chyby'],
+  ['warn', 'Varování'],
+  ['info', 'Informace'],
+  ['debug', 'Ladění (debug)'],
+];
+
+const DATAPOINT_TITLES: Record<DatapointName, string> = {
+  regime: 'Režim',
+  speed: 'Výkon',
+  outdoorTemperature: 'Venkovní teplota (T-ODA)',
+  supplyTemperature: 'Teplota přiváděného vzduchu (T-SUP)',
+  extractTemperature: 'Teplota odváděného vzduchu (T-ETA)',
+  exhaustTemperature: 'Teplota odpadního vzduchu (T-EHA)',
+  indoorTemperature: 'Vnitřní teplota (T-IDA)',
+  analogInput1: 'Analogový vstup IN1',
+  analogInput2: 'Analogový vstup IN2',
+  humidity: 'Vlhkost',
+  alarms: 'Poruchy (bitové pole)',
+  warnings: 'Varování (bitové pole)',
+  filterWarning: 'Výměna filtru',
+  filterRemainingDays: 'Dny do výměny filtru',
+  filterReset: 'Reset počítadla filtru',
+  bypassState: 'Poloha bypassu',
+  bypassControl: 'Ovládání bypassu',
+  temperatureSetpoint: 'Požadovaná teplota',
+  heatingCoolingState: 'Stav ohřevu',
+  controllerType: 'Typ řídicí jednotky',
+  firmwareVersion: 'Verze firmwaru',
+};
+
+// **RULES**
+
+const REGISTER_ADDRESS = { minimum: 0, maximum: 65535 } as const;
+
+function isValidIP(ip: string): boolean {
+  return /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/.test(ip);
+}
+
+function checkIpAddress(ip: string, report: ConfigReport): void {
+  if (!isValidIP(ip)) {
+    report.error(`must be an IPv4 address, got "${ip}"`);
+  } else if (['192.168.1.1', '192.168.0.1', '10.0.0.1', '172.16.0.1'].includes(ip)) {
+    // Common router addresses
+    report.warn(`${ip} is usually a router - ensure it is the unit`);
+  }
+}
+
+function checkPositive(value: number, report: ConfigReport): void {
+  if (value <= 0) {
+    report.error(`must be a positive number, got ${value}`);
+  }
+}
+
+function warnAbove(limit: number, consequence: string) {
+  return (value: number, report: ConfigReport): void => {
+    if (value > limit) {
+      report.warn(`${value} is very high - ${consequence}`);
+    }
+  };
+}
+
+function checkMqttPrefix(prefix: string, report: ConfigReport): void {
+  if (/[+#]/.test(prefix) || prefix.startsWith('/') || prefix.endsWith('/')) {
+    report.error(`must not contain + or # or start or end with /, got "${prefix}"`);
+  }
+}
+
+/**
+ * Connection settings identifying a unit
+ */
+export interface UnitConnection {
+  simulate: boolean;
+  transport: Transport;
+  ip?: string;
+  port: number;
+  serialPath?: string;
+  unitId: number;
+}
+
+/**
+ * ip:port for TCP or the serial path for RTU, followed by the unit ID unless it is the default 1, as several units
+ * can share a bus or a gateway; a simulated unit without connection settings is told apart by its position
+ */
+export function connectionAddress(unit: UnitConnection, index: number): string {
+  const connection = unit.transport === 'rtu' ? `${unit.serialPath}` : `${unit.ip}:${unit.port}`;
+  const address = unit.unitId === 1 ? connection : `${connection} unit ${unit.unitId}`;
+  if (!unit.simulate) {
+    return address;
+  }
+  const hasConnection = unit.transport === 'rtu' ? Boolean(unit.serialPath) : Boolean(unit.ip);
+  return hasConnection ? `simulated:${address}` : `simulated:${index + 1}`;
+}
+
+/**
+ * Identity of an entry of devices for HomeKit, the REST API and MQTT: its id, or else its name without accents,
+ * as lowercase letters, digits and dashes. It leaves out the connection, so moving a unit keeps its accessory.
+ */
+export function deviceKey(unit: { id?: string; name: string }): string {
+  return (unit.id ?? unit.name)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+function checkUnit(unit: UnitConnection & { regimeRegister?: number; speedRegister?: number }, report: ConfigReport): void {
+  if (!unit.simulate && unit.transport === 'tcp' && !unit.ip) {
+    report.error('is required for Modbus TCP', 'ip');
+  }
+  if (!unit.simulate && unit.transport === 'rtu' && !unit.serialPath) {
+    report.error('is required for Modbus RTU', 'serialPath');
+  }
+
+  const { regimeRegister, speedRegister } = unit;
+  if (regimeRegister !== undefined && speedRegister !== undefined) {
+    if (regimeRegister === speedRegister) {
+      report.error(`must differ from regimeRegister (${regimeRegister})`, 'speedRegister');
+    } else if (Math.abs(regimeRegister - speedRegister) === 1) {
+      report.warn('regime and speed registers are adjacent - ensure this is intentional', 'speedRegister');
+    }
+  }
+}
+
+// **DEVICE SETTINGS**
+
+function registerOverride(title: string) {
+  return object({
+    address: integer({ title: 'Adresa', ...REGISTER_ADDRESS }),
+    type: enumeration(REGISTER_TYPE_CHOICES, { title: 'Typ registru' }),
+    scale: number({ title: 'Přepočet', description: 'Násobitel surové hodnoty, např. 0.1 pro desetiny °C' }),
+    signed: boolean({ title: 'Znaménková hodnota' }),
+    writable: boolean({ title: 'Zapisovatelný' }),
+  }, { title, optional: true });
+}
+
+const REGISTER_OVERRIDES = DATAPOINT_NAMES.reduce(
+  (properties, datapoint) => ({ ...properties, [datapoint]: registerOverride(DATAPOINT_TITLES[datapoint]) }),
+  {} as Record<DatapointName, ReturnType<typeof registerOverride>>,
+);
+
+function temperatureSensor(title: string, name: string) {
+  return object({
+    enabled: boolean({ title: 'Zobrazit v HomeKit', default: false }),
+    name: string({ title: 'Název čidla', fallback: name }),
+  }, { title });
+}
+
+// Settings shared by the CO2 and the air quality sensor
+function analogSensor(name: string) {
+  return {
+    enabled: boolean({ title: 'Zobrazit v HomeKit', default: false }),
+    name: string({ title: 'Název čidla', fallback: name }),
+    input: enumeration(ANALOG_INPUT_CHOICES, { title: 'Vstup jednotky', default: 'in1' }),
+    // Typical 0-10 V CO2 transmitter spanning 0-2000 ppm, read in mV
+    scale: number({
+      title: 'Přepočet (ppm na jednotku registru)',
+      description: 'Výchozí 0,2 odpovídá čidlu 0–10 V pro rozsah 0–2000 ppm',
+      default: 0.2,
+      check: checkPositive,
+    }),
+    offset: number({ title: 'Posun', default: 0 }),
+  };
+}
+
+function override(title: string, name: string, duration: number, regime: RegimeName, speed?: number) {
+  return object({
+    enabled: boolean({ title: 'Zobrazit přepínač', default: false }),
+    name: string({ title: 'Název přepínače', fallback: name }),
+    duration: integer({ title: 'Doba trvání (min)', default: duration, minimum: 1, maximum: 1440 }),
+    regime: enumeration(ON_REGIME_CHOICES, { title: 'Režim', default: regime }),
+    // Without a speed the override keeps the speed the unit runs at
+    speed: integer({
+      title: 'Výkon (%)',
+      description: 'Výkon během režimu; prázdné = ponechat aktuální',
+      minimum: 0,
+      maximum: 100,
+      ...(speed !== undefined && { default: speed }),
+    }),
+  }, { title });
+}
+
+/**
+ * What differs between the single unit described at the top level and an entry of devices
+ */
+interface DeviceScope {
+  name: AnyField;
+  model: AnyField;
+  serviceType: AnyField;
+  onRegime: AnyField;
+  tcpCondition: string;
+  rtuCondition: string;
+  ipDescription?: string;
+  portDescription?: string;
+  regimeRegisterDescription?: string;
+  speedRegisterDescription?: string;
+}
+
+function deviceFields<const S extends DeviceScope>(scope: S) {
+  return {
+    name: scope.name as S['name'],
+    model: scope.model as S['model'],
+    simulate: boolean({
+      title: 'Simulace (bez jednotky)',
+      default: false,
+      description: 'Místo skutečné jednotky odpovídá simulovaná jednotka v pluginu. Pro vyzkoušení a vývoj bez hardwaru.',
+    }),
+    transport: enumeration(TRANSPORT_CHOICES, { title: 'Připojení', default: 'tcp' }),
+    ip: string({ title: 'IP adresa', description: scope.ipDescription, condition: scope.tcpCondition, check: checkIpAddress }),
+    port: integer({
+      title: 'Port',
+      description: scope.portDescription,
+      default: 502,
+      minimum: 1,
+      maximum: 65535,
+      condition: scope.tcpCondition,
+    }),
+    serialPath: string({
+      title: 'Sériový port',
+      placeholder: '/dev/ttyUSB0',
+      description: 'Pouze pro Modbus RTU',
+      condition: scope.rtuCondition,
+    }),
+    baudRate: enumeration(BAUD_RATE_CHOICES, { title: 'Přenosová rychlost', default: 9600, condition: scope.rtuCondition }),
+    parity: enumeration(PARITY_CHOICES, { title: 'Parita', default: 'none', condition: scope.rtuCondition }),
+    dataBits: enumeration(DATA_BITS_CHOICES, { title: 'Datové bity', default: 8, condition: scope.rtuCondition }),
+    stopBits: enumeration(STOP_BITS_CHOICES, { title: 'Stop bity', default: 1, condition: scope.rtuCondition }),
+    unitId: integer({ title: 'Modbus adresa jednotky (unit ID)', default: 1, minimum: 1, maximum: 247 }),
+    regimeRegister: integer({ title: 'Režim', description: scope.regimeRegisterDescription, ...REGISTER_ADDRESS }),
+    speedRegister: integer({ title: 'Rychlostní registr', description: scope.speedRegisterDescription, ...REGISTER_ADDRESS }),
+    bypassStateRegister: integer({
+      title: 'Registr stavu bypassu',
+      description: 'Adresa input registru s polohou klapky bypassu (přepíše hodnotu z profilu modelu)',
+      ...REGISTER_ADDRESS,
+    }),
+    bypassControlRegister: integer({
+      title: 'Registr ovládání bypassu',
+      description:
+        'Adresa holding registru pro ovládání bypassu: 0 = automaticky, 1 = otevřeno, 2 = zavřeno (přepíše hodnotu z profilu modelu)',
+      ...REGISTER_ADDRESS,
+    }),
+    registers: object(REGISTER_OVERRIDES, {
+      title: 'Registry',
+      description:
+        'Úprava jednotlivých registrů profilu modelu; vyplňte jen to, čím se vaše jednotka liší (adresy najdete průzkumníkem registrů)',
+      unknownKeys: 'error',
+    }),
+    serviceType: scope.serviceType as S['serviceType'],
+    speedRange: object({
+      unit: enumeration(SPEED_UNIT_CHOICES, { title: 'Jednotka registru výkonu', default: 'percent' }),
+      min: integer({
+        title: 'Minimální výkon',
+        description: 'Nejnižší hodnota, kterou jednotka přijme (např. 12 %)',
+        fallback: 0,
+        minimum: 0,
+        maximum: 65535,
+      }),
+      max: integer({
+        title: 'Maximální výkon',
+        description: 'Výchozí 100 %; v režimu m³/h povinné',
+        fallback: 100,
+        minimum: 1,
+        maximum: 65535,
+      }),
+      step: integer({ title: 'Krok', default: 1, minimum: 1, maximum: 65535 }),
+    }, {
+      title: 'Rozsah výkonu',
+      description: 'Skutečný rozsah výkonu jednotky. Posuvník v HomeKit se rozdělí na povolené hodnoty, 0 % jednotku vypne.',
+      check({ unit, min, max, step }, report, input) {
+        if (unit === 'm3h' && input.max === undefined) {
+          report.error('is required when unit is m3h', 'max');
+        } else if (unit === 'percent' && max > 100) {
+          report.error(`cannot exceed 100 %, got ${max}`, 'max');
+        } else if (max <= min) {
+          report.error(`must be greater than min (${min}), got ${max}`, 'max');
+        } else if (step > max - min) {
+          report.error(`must be 1-${max - min} for the range ${min}-${max}, got ${step}`, 'step');
+        }
+      },
+    }),
+    temperatureSensors: object({
+      outdoor: temperatureSensor('Venkovní teplota', 'Outdoor Temperature'),
+      supply: temperatureSensor('Teplota přiváděného vzduchu', 'Supply Temperature'),
+      extract: temperatureSensor('Teplota odváděného vzduchu', 'Extract Temperature'),
+      exhaust: temperatureSensor('Teplota odpadního vzduchu', 'Exhaust Temperature'),
+      indoor: temperatureSensor('Vnitřní teplota', 'Indoor Temperature'),
+    }, {
+      title: 'Teplotní čidla',
+      description: 'Teplotní čidla jednotky zobrazená jako samostatné služby v HomeKit (vyžaduje model s teplotami)',
+      unknownKeys: 'error',
+    }),
+    onRegime: scope.onRegime as S['onRegime'],
+    regimeSwitches: array(enumeration(REGIME_CHOICES, {}), {
+      title: 'Přepínače režimů',
+      description: 'Režimy zobrazené v HomeKit jako vzájemně výlučné přepínače',
+      uniqueItems: true,
+    }),
+    filterMaintenance: object({
+      enabled: boolean({ title: 'Zobrazit v HomeKit', default: false }),
+      name: string({ title: 'Název', fallback: 'Filter' }),
+      lifetimeDays: integer({
+        title: 'Interval výměny filtru (dny)',
+        description: 'Slouží k výpočtu zbývající životnosti filtru v %',
+        default: 90,
+        minimum: 1,
+        maximum: 730,
+      }),
+    }, { title: 'Údržba filtru', description: 'Zobrazí stav filtru v HomeKit (vyžaduje model s registry filtru)' }),
+    carbonDioxideSensor: object({
+      ...analogSensor('Carbon Dioxide'),
+      threshold: integer({ title: 'Mez zvýšené koncentrace CO2 (ppm)', default: 1200 }),
+    }, { title: 'Čidlo CO2', description: 'Čidlo CO2 připojené ke vstupu IN1/IN2 jednotky' }),
+    airQualitySensor: object({
+      ...analogSensor('Air Quality'),
+      pollutant: enumeration(POLLUTANT_CHOICES, { title: 'Typ čidla', default: 'co2' }),
+      // Without thresholds the platform uses the usual ones for the pollutant
+      thresholds: array(number({}), {
+        title: 'Meze kvality vzduchu',
+        description:
+          '4 vzestupné hodnoty: výborná / dobrá / přijatelná / zhoršená, nad poslední špatná (výchozí CO2: 600, 800, 1000, 1400)',
+        maxItems: 4,
+        check(thresholds, report) {
+          if (thresholds.length !== 4 || thresholds.some((value, index) => index > 0 && value <= thresholds[index - 1])) {
+            report.error(`must be 4 ascending numbers, got ${JSON.stringify(thresholds)}`);
+          }
+        },
+      }),
+    }, { title: 'Čidlo kvality vzduchu', description: 'Čidlo CO2 nebo VOC připojené ke vstupu IN1/IN2 jednotky' }),
+    humiditySensor: object({
+      enabled: boolean({ title: 'Zobrazit v HomeKit', default: false }),
+      name: string({ title: 'Název čidla', fallback: 'Humidity' }),
+      address: integer({ title: 'Registr vlhkosti', description: 'Ponechte prázdné pro registr z profilu modelu', ...REGISTER_ADDRESS }),
+      // Input registers first, where units keep their measurements
+      type: enumeration(REGISTER_TYPE_CHOICES.slice().reverse(), { title: 'Typ registru', default: 'input' }),
+      scale: number({
+        title: 'Přepočet (% na jednotku registru)',
+        description: 'Např. 0,1 pokud jednotka posílá vlhkost v desetinách %',
+        check: checkPositive,
+      }),
+    }, { title: 'Čidlo vlhkosti', description: 'Relativní vlhkost měřená čidlem jednotky (např. odtah z koupelny)' }),
+    bypass: object({
+      enabled: boolean({ title: 'Zobrazit v HomeKit', default: false }),
+      name: string({ title: 'Název', fallback: 'Bypass' }),
+      control: boolean({
+        title: 'Přepínače pro vynucení otevření/zavření',
+        description: 'Vyžaduje zapisovatelný registr ovládání bypassu',
+        default: true,
+      }),
+    }, { title: 'Bypass rekuperátoru', description: 'Poloha klapky letního bypassu a případně její ruční ovládání' }),
+    climate: object({
+      enabled: boolean({ title: 'Zobrazit v HomeKit', default: false }),
+      name: string({ title: 'Název', fallback: 'Heating' }),
+      serviceType: enumeration(CLIMATE_SERVICE_TYPE_CHOICES, { title: 'Typ služby', default: 'heaterCooler' }),
+      currentTemperature: enumeration(TEMPERATURE_PROBE_CHOICES, { title: 'Čidlo aktuální teploty', default: 'indoor' }),
+      minTemperature: number({ title: 'Minimální požadovaná teplota (°C)', default: 15, minimum: 0, maximum: 50 }),
+      maxTemperature: number({ title: 'Maximální požadovaná teplota (°C)', default: 30, minimum: 0, maximum: 50 }),
+    }, {
+      title: 'Vytápění (požadovaná teplota)',
+      description: 'Termostat s aktuální a požadovanou teplotou a stavem ohřevu (vyžaduje model s registrem požadované teploty)',
+      check({ minTemperature, maxTemperature }, report) {
+        if (maxTemperature <= minTemperature) {
+          report.error(`must be greater than minTemperature (${minTemperature}), got ${maxTemperature}`, 'maxTemperature');
+        }
+      },
+    }),
+    overrides: object({
+      boost: override('Boost', 'Boost', 30, 'ventilation', 100),
+      fireplace: override('Krb', 'Fireplace', 15, 'overpressure'),
+      away: override('Nepřítomnost', 'Away', 480, 'ventilation', 30),
+    }, {
+      title: 'Časově omezené režimy',
+      description: 'Přepínače, které na danou dobu nastaví režim a výkon a poté vrátí předchozí stav',
+      unknownKeys: 'error',
+    }),
+    schedule: object({
+      enabled: boolean({ title: 'Použít plán', default: false }),
+      name: string({ title: 'Název přepínače plánu', fallback: 'Schedule' }),
+      points: array(object({
+        days: array(enumeration(WEEKDAY_CHOICES, {}), { title: 'Dny', description: 'Prázdné = každý den', uniqueItems: true }),
+        time: string({ title: 'Čas (HH:MM)', pattern: /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, patternHint: 'a time as HH:MM', required: true }),
+        regime: enumeration(REGIME_CHOICES, { title: 'Režim', description: 'Prázdné = beze změny' }),
+        speed: integer({ title: 'Výkon (%)', description: 'Prázdné = beze změny', minimum: 0, maximum: 100 }),
+      }, {
+        check(point, report) {
+          if (point.regime === undefined && point.speed === undefined) {
+            report.error('set a regime, a speed or both');
+          }
+        },
+      }), { title: 'Body plánu', fallback: [] }),
+    }, {
+      title: 'Týdenní plán',
+      description: 'Změny režimu a výkonu podle dne a času, řízené pluginem. Ruční změna platí do dalšího bodu plánu.',
+    }),
+  };
+}
+
+// The single unit of the top-level layout; its model and service type are also the defaults for devices
+const PLATFORM_DEVICE_FIELDS = deviceFields({
+  name: string({ title: 'Název', default: 'AtreaHRU', required: true, alias: 'deviceName' }),
+  model: enumeration(MODEL_CHOICES, {
+    title: 'Model jednotky',
+    description: 'Profil registrů podle modelu řídicí jednotky',
+    default: DEFAULT_MODEL,
+  }),
+  serviceType: enumeration(SERVICE_TYPE_CHOICES, {
+    title: 'Typ služby v HomeKit',
+    description: 'Fanv2 a AirPurifier mají tlačítko Auto, které předá řízení automatickému režimu jednotky',
+    default: 'fan',
+  }),
+  onRegime: enumeration(ON_REGIME_CHOICES, {
+    title: 'Režim při zapnutí',
+    description: 'Režim, který se nastaví při zapnutí ventilátoru z HomeKit (výchozí Větrání)',
+    default: DEFAULT_ON_REGIME,
+  }),
+  tcpCondition: 'return model.transport !== \'rtu\';',
+  rtuCondition: 'return model.transport === \'rtu\';',
+  ipDescription: 'IP adresa zařízení (pouze pro jednu jednotku bez seznamu zařízení)',
+  portDescription: 'Port TCP (výchozí 502)',
+  regimeRegisterDescription: 'Adresa režimu pro zapnutí/vypnutí ventilátoru (přepíše hodnotu z profilu modelu)',
+  speedRegisterDescription: 'Adresa registru pro nastavení rychlosti ventilátoru (přepíše hodnotu z profilu modelu)',
+});
+
+// An entry of devices; model, service type and on regime fall back to the top level
+const { name: ENTRY_NAME, ...ENTRY_FIELDS } = deviceFields({
+  name: string({ title: 'Název jednotky', required: true }),
+  model: enumeration(MODEL_CHOICES, { title: 'Model jednotky', description: 'Profil registrů (výchozí podle nastavení platformy)' }),
+  serviceType: enumeration(SERVICE_TYPE_CHOICES, {
+    title: 'Typ služby v HomeKit',
+    description: 'Fanv2 a AirPurifier mají tlačítko Auto, které předá řízení automatickému režimu jednotky',
+  }),
+  onRegime: enumeration(ON_REGIME_CHOICES, {
+    title: 'Režim při zapnutí',
+    description: 'Režim, který se nastaví při zapnutí ventilátoru z HomeKit (výchozí Větrání)',
+  }),
+  tcpCondition: 'return !(model.devices && model.devices[arrayIndices] && model.devices[arrayIndices].transport === \'rtu\');',
+  rtuCondition: 'return model.devices && model.devices[arrayIndices] && model.devices[arrayIndices].transport === \'rtu\';',
+});
+
+const DEVICE_ENTRY = object({
+  name: ENTRY_NAME,
+  id: string({
+    title: 'Identifikátor',
+    description: 'Stálý identifikátor pro HomeKit, REST API a MQTT. Prázdné = odvozený z názvu; po přejmenování vyplňte původní hodnotu.',
+    pattern: /^[a-z0-9]+(-[a-z0-9]+)*$/,
+    patternHint: 'lowercase letters and digits separated by dashes',
+  }),
+  ...ENTRY_FIELDS,
+}, { check: checkUnit });
+
+// **PLATFORM SETTINGS**
+
+const CONFIG_SCHEMA = object({
+  ...PLATFORM_DEVICE_FIELDS,
+  // Generous defaults: ATREA units answer slowly and drop requests sent too fast
+  connectionTimeout: integer({
+    title: 'Časový limit spojení (ms)',
+    description: 'Jak dlouho čekat na připojení a odpověď jednotky (výchozí 15000, minimum 5000)',
+    default: 15000,
+    minimum: 5000,
+    clamp: true,
+    check: warnAbove(30000, 'may cause slow recovery from failures'),
+  }),
+  operationThrottle: integer({
+    title: 'Rozestup operací (ms)',
+    description: 'Minimální odstup mezi dvěma dotazy na jednotku; ATREA nezvládá rychlé dotazy (výchozí 2500, minimum 500)',
+    default: 2500,
+    minimum: 500,
+    clamp: true,
+    check: warnAbove(5000, 'may cause slow device response'),
+  }),
+  maxRetries: integer({
+    title: 'Počet opakování',
+    description: 'Kolikrát zopakovat neúspěšnou operaci (výchozí 2)',
+    default: 2,
+    minimum: 1,
+    maximum: 10,
+    clamp: true,
+  }),
+  heartbeatInterval: integer({
+    title: 'Kontrola spojení (ms)',
+    description: 'Interval kontroly spojení s jednotkou (výchozí 120000, minimum 30000)',
+    default: 120000,
+    minimum: 30000,
+    clamp: true,
+    check: warnAbove(300000, 'may not detect failures quickly'),
+  }),
+  cacheTimeout: integer({
+    title: 'Platnost mezipaměti (ms)',
+    description: 'Jak dlouho používat přečtenou hodnotu bez nového dotazu (výchozí 8000, minimum 1000)',
+    default: 8000,
+    minimum: 1000,
+    clamp: true,
+  }),
+  // 0 turns background polling off, characteristics are then read on demand
+  pollInterval: integer({
+    title: 'Interval dotazování (ms)',
+    description: 'Jak často načítat hodnoty na pozadí a posílat změny do HomeKit (výchozí 30000, minimum 5000, 0 = vypnuto)',
+    default: 30000,
+    minimum: 5000,
+    off: 0,
+    clamp: true,
+    check: warnAbove(600000, 'HomeKit will show stale values'),
+  }),
+  logLevel: enumeration(LOG_LEVEL_CHOICES, {
+    title: 'Podrobnost logu',
+    description: 'Debug navíc vypíše podrobnou diagnostiku spojení',
+    default: 'info',
+  }),
+  restApi: object({
+    enabled: boolean({ title: 'Zapnout REST API', default: false }),
+    port: integer({ title: 'Port', default: 8582, minimum: 1, maximum: 65535 }),
+    bindAddress: string({
+      title: 'Adresa naslouchání',
+      description: '127.0.0.1 = pouze tento počítač, 0.0.0.0 = celá síť',
+      default: '127.0.0.1',
+      check(address, report) {
+        if (!isValidIP(address)) {
+          report.error(`must be an IPv4 address, got "${address}"`);
+        }
+      },
+    }),
+    // Required as a Bearer token on every request when set
+    token: string({
+      title: 'Přístupový token',
+      description: 'Vyžadován v hlavičce Authorization: Bearer <token>; bez tokenu může jednotku ovládat kdokoliv, kdo API dosáhne',
+    }),
+  }, {
+    title: 'REST API',
+    description:
+      'Lokální HTTP rozhraní pro skripty a nástěnné panely (stav a ovládání jednotek ve formátu JSON) a metriky pro Prometheus na /metrics',
+    check(restApi, report) {
+      if (restApi.enabled && !restApi.token && restApi.bindAddress !== '127.0.0.1') {
+        report.warn('REST API is reachable from the network without a token - anyone on the network can control the unit');
+      }
+    },
+  }),
+  mqtt: object({
+    enabled: boolean({ title: 'Zapnout MQTT', default: false }),
+    url: string({
+      title: 'Adresa brokeru',
+      fallback: 'mqtt://localhost:1883',
+      check(url, report) {
+        if (!/^(mqtts?|wss?|tcp|ssl):\/\/[^/]+/.test(url)) {
+          report.error(`must be a broker URL like mqtt://192.168.1.10:1883, got "${url}"`);
+        }
+      },
+    }),
+    username: string({ title: 'Uživatelské jméno' }),
+    password: string({ title: 'Heslo' }),
+    topicPrefix: string({ title: 'Prefix témat', fallback: 'atrea', check: checkMqttPrefix }),
+    // Home Assistant MQTT discovery
+    discovery: boolean({ title: 'Home Assistant MQTT discovery', default: true }),
+    discoveryPrefix: string({ title: 'Prefix discovery', fallback: 'homeassistant', check: checkMqttPrefix }),
+  }, {
+    title: 'MQTT a Home Assistant',
+    description: 'Publikace stavu a příjem příkazů přes MQTT broker, včetně automatického zjišťování v Home Assistant',
+  }),
+  devices: array(DEVICE_ENTRY, {
+    title: 'Jednotky',
+    description: 'Seznam jednotek ATREA. Pokud je vyplněn, ignorují se výše uvedené parametry připojení.',
+    maxItems: MAX_DEVICES,
+    check(devices, report) {
+      if (devices.length === 0) {
+        report.error('must list at least one unit');
+      }
+      // Units on one RS485 bus share its serial port and differ in unitId; the port runs with one set of serial settings
+      const addresses = new Map<string, number>();
+      const buses = new Map<string, number>();
+      const keys = new Map<string, number>();
+      devices.forEach((device, index) => {
+        const address = connectionAddress(device, index);
+        const first = addresses.get(address);
+        if (first !== undefined) {
+          report.error(`uses the same connection ${address} as devices[${first}] - units sharing it need different "unitId"`, `[${index}]`);
+        }
+        addresses.set(address, first ?? index);
+
+        if (device.transport === 'rtu' && device.serialPath && !device.simulate) {
+          const bus = buses.get(device.serialPath);
+          const other = bus !== undefined ? devices[bus] : undefined;
+          const differs = other && SERIAL_SETTINGS.filter(setting => device[setting] !== other[setting]);
+          if (differs && differs.length > 0) {
+            report.error(`shares ${device.serialPath} with devices[${bus}] but sets different ${differs.join(', ')}`, `[${index}]`);
+          }
+          buses.set(device.serialPath, bus ?? index);
+        }
+
+        const key = deviceKey(device);
+        const same = keys.get(key);
+        if (!key) {
+          report.error('has no letters or digits to identify the unit by - set "id"', `[${index}].name`);
+        } else if (same !== undefined) {
+          const field = device.id ? 'id' : 'name';
+          report.error(`identifies the unit as "${key}" like devices[${same}] - set a different "id"`, `[${index}].${field}`);
+        }
+        keys.set(key, same ?? index);
+      });
+    },
+  }),
+}, {
+  ignoredKeys: ['platform', '_bridge'],
+  check(config, report, input) {
+    if (input.devices === undefined) {
+      checkUnit(config, report);
+    } else if (input.ip !== undefined || input.serialPath !== undefined) {
+      report.warn('both top-level connection and "devices" are configured - top-level connection settings are ignored');
+    }
+  },
+});
+
+/**
+ * Platform block as written in config.json
+ */
+export type HRUConfig = InputOf<typeof CONFIG_SCHEMA>;
+
+/**
+ * Entry of devices as written in config.json
+ */
+export type HRUDeviceConfig = InputOf<typeof DEVICE_ENTRY>;
+
+/**
+ * Platform block after parsing: validated, with defaults applied and timings clamped
+ */
+export type PlatformOptions = OutputOf<typeof CONFIG_SCHEMA>;
+
+/**
+ * One unit after parsing, with the top-level model, service type and on regime filled in
+ */
+export type DeviceOptions = ObjectOutput<typeof PLATFORM_DEVICE_FIELDS> & Pick<OutputOf<typeof DEVICE_ENTRY>, 'id'>;
+
+export interface ParsedConfig {
+  config: PlatformOptions;
+  // Units to expose: the entries of devices, or the top level as the single unit
+  devices: DeviceOptions[];
+  // Any error means the configuration must not be used
+  errors: string[];
+  warnings: string[];
+}
+
+// **PARSING**
+
+interface Issues {
+  errors: string[];
+  warnings: string[];
+}
+
+const isMissing = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+const childPath = (path: string, key: string): string => key.startsWith('[') || !path ? `${path}${key}` : `${path}.${key}`;
+
+function reporter(path: string, issues: Issues): ConfigReport {
+  const format = (message: string, key?: string): string => {
+    const location = key === undefined ? path : childPath(path, key);
+    return location ? `${location}: ${message}` : message;
+  };
+  return {
+    error: (message, key) => issues.errors.push(format(message, key)),
+    warn: (message, key) => issues.warnings.push(format(message, key)),
+  };
+}
+
+function describeRange(minimum?: number, maximum?: number): string {
+  if (minimum !== undefined && maximum !== undefined) {
+    return `${minimum}-${maximum}`;
+  }
+  return minimum !== undefined ? `at least ${minimum}` : `at most ${maximum}`;
+}
+
+function parseField(spec: AnyField, input: unknown, path: string, issues: Issues): unknown {
+  const report = reporter(path, issues);
+  if (isMissing(input)) {
+    if (spec.kind !== 'object' || spec.optional) {
+      if (spec.default === undefined && spec.fallback === undefined && spec.required) {
+        report.error('required setting is missing');
+      }
+      return spec.default ?? spec.fallback;
+    }
+    input = {};
+  }
+
+  const value = parseValue(spec, input, path, issues, report);
+  if (value === undefined) {
+    return spec.default ?? spec.fallback;
+  }
+  spec.check?.(value, report, input);
+  return value;
+}
+
+/**
+ * Value of a configured setting, undefined when it is invalid
+ */
+function parseValue(spec: AnyField, input: unknown, path: string, issues: Issues, report: ConfigReport): unknown {
+  const shown = JSON.stringify(input);
+
+  switch (spec.kind) {
+    case 'integer':
+    case 'number': {
+      if (typeof input !== 'number' || !Number.isFinite(input) || (spec.kind === 'integer' && !Number.isInteger(input))) {
+        report.error(`must be ${spec.kind === 'integer' ? 'a whole number' : 'a number'}, got ${shown}`);
+        return undefined;
+      }
+      const { minimum, maximum } = spec;
+      const below = minimum !== undefined && input < minimum;
+      const above = maximum !== undefined && input > maximum;
+      if (input === spec.off || (!below && !above)) {
+        return input;
+      }
+      if (spec.clamp) {
+        const limit = below ? minimum! : maximum!;
+        report.warn(`${input} is ${below ? 'below the minimum' : 'above the maximum'} ${limit} - using ${limit}`);
+        return limit;
+      }
+      report.error(`must be ${describeRange(minimum, maximum)}, got ${input}`);
+      return undefined;
+    }
+
+    case 'string':
+      if (typeof input !== 'string') {
+        report.error(`must be text, got ${shown}`);
+        return undefined;
+      }
+      if (spec.pattern && !spec.pattern.test(input)) {
+        report.error(`must be ${spec.patternHint}, got ${shown}`);
+        return undefined;
+      }
+      return input;
+
+    case 'boolean':
+      if (typeof input !== 'boolean') {
+        report.error(`must be true or false, got ${shown}`);
+        return undefined;
+      }
+      return input;
+
+    case 'enum': {
+      const values = spec.choices.map(([choice]) => choice);
+      if (!values.includes(input as string | number)) {
+        report.error(`must be one of ${values.join(', ')}, got ${shown}`);
+        return undefined;
+      }
+      return input;
+    }
+
+    case 'array': {
+      if (!Array.isArray(input)) {
+        report.error(`must be a list, got ${shown}`);
+        return undefined;
+      }
+      if (spec.maxItems !== undefined && input.length > spec.maxItems) {
+        report.error(`must have at most ${spec.maxItems} entries, got ${input.length}`);
+        return undefined;
+      }
+      const items = input.map((item, index) => parseField(spec.items, item, childPath(path, `[${index}]`), issues));
+      if (spec.uniqueItems) {
+        items
+          .filter((item, index) => items.indexOf(item) !== index)
+          .forEach(item => report.error(`lists ${JSON.stringify(item)} more than once`));
+      }
+      return items;
+    }
+
+    case 'object': {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        report.error(`must be an object, got ${shown}`);
+        return undefined;
+      }
+      return parseObject(spec.properties, input as Record<string, unknown>, spec, path, issues, report);
+    }
+  }
+}
+
+function parseObject(
+  properties: Properties,
+  input: Record<string, unknown>,
+  spec: { unknownKeys?: 'error' | 'warn'; ignoredKeys?: string[] },
+  path: string,
+  issues: Issues,
+  report: ConfigReport,
+): Record<string, unknown> {
+  const output: Record<string, unknown> = {};
+  const known = new Set(spec.ignoredKeys);
+
+  Object.keys(properties).forEach(key => {
+    const property = properties[key];
+    known.add(key);
+    let value = input[key];
+    if (property.alias !== undefined) {
+      known.add(property.alias);
+      if (isMissing(value) && !isMissing(input[property.alias])) {
+        report.warn(`"${property.alias}" is deprecated - use "${key}"`);
+        value = input[property.alias];
+      }
+    }
+
+    const parsed = parseField(property, value, childPath(path, key), issues);
+    if (parsed !== undefined) {
+      output[key] = parsed;
+    }
+  });
+
+  Object.keys(input)
+    .filter(key => !known.has(key))
+    .forEach(key => {
+      if (spec.unknownKeys === 'error') {
+        report.error(`unknown setting "${key}"`);
+      } else {
+        report.warn(`unknown setting "${key}" - ignored`);
+      }
+    });
+
+  return output;
+}
+
+/**
+ * Validate a platform block, apply the defaults and clamp the timings. Problems come back as messages
+ * naming the exact setting, e.g. "devices[1].port: must be 1-65535, got 70000".
+ */
+export function parseConfig(input: unknown): ParsedConfig {
+  const issues: Issues = { errors: [], warnings: [] };
+  const config = parseField(CONFIG_SCHEMA, input, '', issues) as PlatformOptions;
+
+  const devices: DeviceOptions[] = config.devices
+    ? config.devices.map(entry => ({
+      ...entry,
+      model: entry.model ?? config.model,
+      serviceType: entry.serviceType ?? config.serviceType,
+      onRegime: entry.onRegime ?? config.onRegime,
+    }))
+    : [config];
+
+  return { config, devices, ...issues };
+}
+
+// **CONFIG.SCHEMA.JSON**
+
+// Homebridge UI reads required top-level settings from a list on the root and nested ones from a flag on the setting
+function toJsonSchema(spec: AnyField, depth: number = 0): Record<string, unknown> {
+  const json: Record<string, unknown> = {};
+  const set = (key: string, value: unknown) => {
+    if (value !== undefined) {
+      json[key] = value;
+    }
+  };
+
+  switch (spec.kind) {
+    case 'enum':
+      set('type', typeof spec.choices[0][0] === 'number' ? 'integer' : 'string');
+      break;
+    default:
+      set('type', spec.kind);
+  }
+  set('title', spec.title);
+  set('description', spec.description);
+  set('placeholder', spec.placeholder ?? (typeof spec.fallback === 'string' ? spec.fallback : undefined));
+  set('default', spec.default);
+
+  switch (spec.kind) {
+    case 'integer':
+    case 'number':
+      set('minimum', spec.off !== undefined && spec.minimum !== undefined ? Math.min(spec.off, spec.minimum) : spec.minimum);
+      set('maximum', spec.maximum);
+      break;
+    case 'string':
+      set('pattern', spec.pattern?.source);
+      break;
+    case 'enum':
+      set('oneOf', spec.choices.map(([value, title]) => ({ title, enum: [value] })));
+      break;
+    case 'array':
+      set('maxItems', spec.maxItems);
+      set('uniqueItems', spec.uniqueItems);
+      set('items', toJsonSchema(spec.items, depth + 1));
+      break;
+    case 'object': {
+      const keys = Object.keys(spec.properties);
+      if (depth === 0) {
+        set('required', keys.filter(key => spec.properties[key].required));
+      }
+      set('properties', keys.reduce((properties, key) => ({ ...properties, [key]: toJsonSchema(spec.properties[key], depth + 1) }), {}));
+      break;
+    }
+  }
+
+  set('required', spec.required && depth > 1 ? true : undefined);
+  set('condition', spec.condition && { functionBody: spec.condition });
+  return json;
+}
+
+/**
+ * Contents of config.schema.json for the Homebridge UI
+ */
+export function buildConfigSchema(): Record<string, unknown> {
+  return {
+    pluginAlias: PLATFORM_NAME,
+    pluginType: 'platform',
+    singular: true,
+    customUi: true,
+    schema: toJsonSchema(CONFIG_SCHEMA),
+  };
+}
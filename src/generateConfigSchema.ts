@@ -0,0 +1,11 @@
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { buildConfigSchema } from './configSchema';
+
+/**
+ * Writes config.schema.json for the Homebridge UI from the configuration schema (npm run schema)
+ */
+
+const path = join(__dirname, '..', 'config.schema.json');
+writeFileSync(path, JSON.stringify(buildConfigSchema(), null, 2) + '\n');
+process.stdout.write(`Wrote ${path}\n`);
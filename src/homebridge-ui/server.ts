@@ -0,0 +1,249 @@
+import { HomebridgePluginUiServer, RequestError } from '@homebridge/plugin-ui-utils';
+import { readFileSync } from 'fs';
+import { HRUConfig, parseConfig } from '../configSchema';
+import { ModbusSession, SessionSettings, resolveSessionSettings, selectSessionSettings } from '../modbusSession';
+import { modbusExceptionCode } from '../modbusTransport';
+import { RegisterScanner, formatScanReport } from '../scanner';
+import { DATAPOINT_NAMES, DatapointName, MODEL_PROFILES, RegisterType, decodeRegisterValue, getRegimeName } from '../profiles';
+import { PLATFORM_NAME, PLUGIN_NAME } from '../settings';
+
+/**
+ * Server side of the custom configuration UI, run by the Homebridge UI in its own process.
+ *
+ * Each request opens a short Modbus session to the unit as currently entered in the form and
+ * closes it again, so settings can be tried before they are saved. The unit accepts a single
+ * Modbus master, so a unit the running plugin is configured for is only read, and the page warns
+ * that the reads compete with the plugin's. Writes are limited to the writable datapoints of the
+ * unit's profile unless raw writes are unlocked.
+ */
+
+// Explorer reads are kept short so one request cannot hold the unit for long
+const MAX_READ_COUNT = 20;
+
+interface UnitRequest {
+  // Platform block as entered in the form
+  config: HRUConfig;
+  // Index into config.devices; ignored for the single-unit layout
+  device?: number;
+}
+
+interface ReadRequest extends UnitRequest {
+  type: RegisterType;
+  address: number;
+  count?: number;
+}
+
+interface WriteRequest extends UnitRequest {
+  address: number;
+  value: number;
+  // Unlocked by the user to write registers outside the model profile
+  raw?: boolean;
+}
+
+interface RegisterReading {
+  address: number;
+  raw: number;
+  datapoint?: DatapointName;
+  value?: number;
+  unit?: string;
+}
+
+class AtreaUiServer extends HomebridgePluginUiServer {
+  constructor() {
+    super();
+
+    this.onRequest('/profiles', () => this.listProfiles());
+    this.onRequest('/unit-status', (request: UnitRequest) => this.unitStatus(request));
+    this.onRequest('/test-connection', (request: UnitRequest) => this.testConnection(request));
+    this.onRequest('/registers/read', (request: ReadRequest) => this.readRegisters(request));
+    this.onRequest('/registers/write', (request: WriteRequest) => this.writeRegister(request));
+    this.onRequest('/suggest-model', (request: UnitRequest) => this.suggestModel(request));
+
+    this.ready();
+  }
+
+  private listProfiles() {
+    return Object.values(MODEL_PROFILES).map(profile => ({
+      model: profile.id,
+      name: profile.name,
+      datapoints: DATAPOINT_NAMES
+        .filter(datapoint => profile.datapoints[datapoint])
+        .map(datapoint => ({ datapoint, ...profile.datapoints[datapoint] })),
+    }));
+  }
+
+  /**
+   * Whether the running plugin talks to the unit, checked before anything is sent to it
+   */
+  private unitStatus(request: UnitRequest) {
+    const settings = this.resolveSettings(request);
+    return { address: new ModbusSession(settings).address, inUse: this.isUsedByPlugin(settings) };
+  }
+
+  private testConnection(request: UnitRequest) {
+    return this.withSession(request, async (session, settings) => {
+      const startTime = Date.now();
+      const regime = settings.registers.regime!;
+      const speed = settings.registers.speed!;
+      const [regimeValue] = await session.read(regime.type, regime.address);
+      const [speedValue] = await session.read(speed.type, speed.address);
+
+      return {
+        address: session.address,
+        duration: Date.now() - startTime,
+        regime: { address: regime.address, value: regimeValue, name: getRegimeName(regimeValue) ?? null },
+        speed: { address: speed.address, value: speedValue },
+        deviceBusy: session.deviceBusyTotal,
+      };
+    });
+  }
+
+  private readRegisters(request: ReadRequest) {
+    const { type, address } = request;
+    const count = request.count ?? 1;
+    if (type !== 'holding' && type !== 'input') {
+      throw new RequestError('Register type must be holding or input', { type });
+    }
+    this.checkAddress(address);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_READ_COUNT || address + count > 65536) {
+      throw new RequestError(`Register count must be 1-${MAX_READ_COUNT}`, { count });
+    }
+
+    return this.withSession(request, async (session, settings) => {
+      const data = await session.read(type, address, count);
+      return data.map((raw, offset) => this.describeRegister(settings, type, address + offset, raw));
+    });
+  }
+
+  private writeRegister(request: WriteRequest) {
+    const { address, value, raw } = request;
+    this.checkAddress(address);
+    if (!Number.isInteger(value) || value < 0 || value > 65535) {
+      throw new RequestError('Value must be a raw register value 0-65535', { value });
+    }
+
+    const settings = this.resolveSettings(request);
+    if (this.isUsedByPlugin(settings)) {
+      throw new RequestError(
+        `${new ModbusSession(settings).address} is used by the running plugin - write through HomeKit or stop Homebridge first`,
+        { inUse: true },
+      );
+    }
+    const writable = DATAPOINT_NAMES.some(name => {
+      const definition = settings.registers[name];
+      return definition?.type === 'holding' && definition.writable && definition.address === address;
+    });
+    if (!writable && !raw) {
+      throw new RequestError(`Register ${address} is not a writable datapoint of the model profile`, { address });
+    }
+
+    return this.withSession(request, async (session, settings) => {
+      await session.write(address, value);
+      const [raw] = await session.read('holding', address);
+      return this.describeRegister(settings, 'holding', address, raw);
+    });
+  }
+
+  /**
+   * Scan the registers known from the model profiles and propose the best matching model
+   */
+  private suggestModel(request: UnitRequest) {
+    return this.withSession(request, async session => {
+      const report = await new RegisterScanner(session, session.address).scan();
+      return {
+        proposal: report.proposal ?? null,
+        candidates: report.candidates,
+        report: formatScanReport(report),
+      };
+    });
+  }
+
+  private checkAddress(address: number): void {
+    if (!Number.isInteger(address) || address < 0 || address > 65535) {
+      throw new RequestError('Register address must be 0-65535', { address });
+    }
+  }
+
+  private describeRegister(settings: SessionSettings, type: RegisterType, address: number, raw: number): RegisterReading {
+    const datapoint = DATAPOINT_NAMES.find(name => {
+      const definition = settings.registers[name];
+      return definition?.type === type && definition.address === address;
+    });
+    if (!datapoint) {
+      return { address, raw };
+    }
+
+    const definition = settings.registers[datapoint]!;
+    return { address, raw, datapoint, value: decodeRegisterValue(raw, definition), unit: definition.unit };
+  }
+
+  /**
+   * Whether the saved Homebridge configuration has the plugin talk to the same connection; the serial
+   * port of an RTU bus is held by the plugin whichever unit on it is asked
+   */
+  private isUsedByPlugin(settings: SessionSettings): boolean {
+    if (settings.simulate || !this.homebridgeConfigPath) {
+      return false;
+    }
+
+    let saved: { platforms?: Array<{ platform?: string }>; disabledPlugins?: string[] };
+    try {
+      saved = JSON.parse(readFileSync(this.homebridgeConfigPath, 'utf8'));
+    } catch {
+      return false;
+    }
+    if (saved.disabledPlugins?.includes(PLUGIN_NAME)) {
+      return false;
+    }
+
+    const connection = connectionOf(settings);
+    return (saved.platforms ?? [])
+      .filter(platform => platform?.platform === PLATFORM_NAME)
+      .some(platform => {
+        const parsed = parseConfig(platform);
+        return parsed.devices.some(entry => {
+          const running = resolveSessionSettings(entry, parsed.config);
+          return !running.simulate && connectionOf(running) === connection;
+        });
+      });
+  }
+
+  private async withSession<T>(request: UnitRequest, run: (session: ModbusSession, settings: SessionSettings) => Promise<T>): Promise<T> {
+    const settings = this.resolveSettings(request);
+    const session = new ModbusSession(settings);
+
+    try {
+      await session.open();
+      return await run(session, settings);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      const code = modbusExceptionCode(error);
+      throw new RequestError(`${session.address}: ${errorMsg}`, { code: code ?? null });
+    } finally {
+      await session.close();
+    }
+  }
+
+  private resolveSettings({ config, device }: UnitRequest): SessionSettings {
+    if (!config || typeof config !== 'object') {
+      throw new RequestError('Missing plugin configuration', {});
+    }
+
+    const parsed = parseConfig(config);
+    if (parsed.errors.length > 0) {
+      throw new RequestError(`Invalid configuration: ${parsed.errors.join('; ')}`, { errors: parsed.errors });
+    }
+
+    const settings = selectSessionSettings(parsed, parsed.config.devices ? device : 0);
+    if (!settings) {
+      throw new RequestError(`Unknown device ${device}`, { device });
+    }
+    return settings;
+  }
+}
+
+function connectionOf(settings: SessionSettings): string {
+  return settings.serial ? settings.serial.path : `${settings.ip}:${settings.port}`;
+}
+
+(() => new AtreaUiServer())();
@@ -0,0 +1,114 @@
+import { HRUPlatform } from './platform';
+import { DatapointName } from './profiles';
+
+/**
+ * Prometheus text exposition of connection health, operation statistics and unit readings.
+ *
+ * Unit readings come from the polled snapshot only, so a scrape never adds Modbus traffic;
+ * with polling off only the health metrics are exported.
+ */
+
+type MetricType = 'gauge' | 'counter';
+
+interface DatapointMetric {
+  name: string;
+  help: string;
+  labels?: Record<string, string>;
+}
+
+const DATAPOINT_METRICS: { [K in DatapointName]?: DatapointMetric } = {
+  regime: { name: 'atrea_regime', help: 'Ventilation regime register value' },
+  speed: { name: 'atrea_speed', help: 'Speed register value, in % or m3/h depending on the unit' },
+  outdoorTemperature: { name: 'atrea_temperature_celsius', help: 'Temperature probe reading', labels: { probe: 'outdoor' } },
+  supplyTemperature: { name: 'atrea_temperature_celsius', help: 'Temperature probe reading', labels: { probe: 'supply' } },
+  extractTemperature: { name: 'atrea_temperature_celsius', help: 'Temperature probe reading', labels: { probe: 'extract' } },
+  exhaustTemperature: { name: 'atrea_temperature_celsius', help: 'Temperature probe reading', labels: { probe: 'exhaust' } },
+  indoorTemperature: { name: 'atrea_temperature_celsius', help: 'Temperature probe reading', labels: { probe: 'indoor' } },
+  analogInput1: { name: 'atrea_analog_input_millivolts', help: 'Analog input voltage', labels: { input: 'in1' } },
+  analogInput2: { name: 'atrea_analog_input_millivolts', help: 'Analog input voltage', labels: { input: 'in2' } },
+  humidity: { name: 'atrea_humidity_percent', help: 'Relative humidity' },
+  filterWarning: { name: 'atrea_filter_change_required', help: '1 when the filter needs replacing' },
+  filterRemainingDays: { name: 'atrea_filter_remaining_days', help: 'Days until the filter needs replacing' },
+  bypassState: { name: 'atrea_bypass_open', help: '1 when the bypass damper is open' },
+  bypassControl: { name: 'atrea_bypass_control', help: 'Bypass control mode, 0 automatic, 1 open, 2 closed' },
+  temperatureSetpoint: { name: 'atrea_temperature_setpoint_celsius', help: 'Requested temperature' },
+  heatingCoolingState: { name: 'atrea_heating_cooling_state', help: 'Heating state, 0 idle, 1 heating, 2 cooling' },
+};
+
+class MetricWriter {
+  private readonly families = new Map<string, { help: string; type: MetricType; samples: string[] }>();
+
+  add(name: string, help: string, type: MetricType, labels: Record<string, string>, value: number): void {
+    let family = this.families.get(name);
+    if (!family) {
+      family = { help, type, samples: [] };
+      this.families.set(name, family);
+    }
+
+    const labelText = Object.entries(labels)
+      .map(([key, labelValue]) => `${key}="${labelValue.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+      .join(',');
+    family.samples.push(`${name}${labelText ? `{${labelText}}` : ''} ${value}`);
+  }
+
+  toString(): string {
+    return Array.from(this.families.entries())
+      .map(([name, { help, type, samples }]) => [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples].join('\n'))
+      .join('\n') + '\n';
+  }
+}
+
+export function renderMetrics(platform: HRUPlatform): string {
+  const metrics = new MetricWriter();
+  const stats = platform.getPlatformStats();
+  const diagnostics = platform.getCurrentDiagnostics();
+
+  metrics.add('atrea_platform_uptime_seconds', 'Time since the platform started', 'gauge', {}, Math.round(stats.uptime / 1000));
+  if (diagnostics) {
+    // Only known after the first health check
+    metrics.add('atrea_platform_health_percent', 'Share of healthy devices at the last health check', 'gauge', {},
+      diagnostics.platformHealth);
+    metrics.add('atrea_platform_anomalies', 'Anomalies found by the last health check', 'gauge', {}, diagnostics.anomalies.length);
+  }
+
+  platform.getAccessories().forEach(accessory => {
+    const device = accessory.getDeviceSettings();
+    const labels = { device: device.name, id: device.deviceId };
+    const health = accessory.getConnectionHealth();
+    const operations = accessory.getOperationStats();
+    const snapshot = accessory.getSnapshot();
+
+    metrics.add('atrea_up', '1 when the Modbus connection to the unit is open', 'gauge', labels,
+      accessory.getConnectionState().isConnected ? 1 : 0);
+    metrics.add('atrea_operations_total', 'Modbus operations attempted', 'counter', labels, health.totalOperations);
+    metrics.add('atrea_operation_success_ratio', 'Share of successful operations', 'gauge', labels, health.successRate / 100);
+    metrics.add('atrea_consecutive_failures', 'Operations failed in a row', 'gauge', labels, health.consecutiveFailures);
+    metrics.add('atrea_last_success_timestamp_seconds', 'Time of the last successful operation', 'gauge', labels,
+      Math.round(health.lastSuccessfulOperation / 1000));
+    metrics.add('atrea_device_busy_total', 'Device busy answers (Modbus exception 6)', 'counter', labels, operations.deviceBusyTotal);
+    metrics.add('atrea_device_busy_streak', 'Device busy answers since the last successful operation', 'gauge', labels,
+      operations.deviceBusyCount);
+    metrics.add('atrea_queue_length', 'Operations waiting in the queue', 'gauge', labels, operations.queueLength);
+    metrics.add('atrea_cache_entries', 'Register values in the read cache', 'gauge', labels, accessory.getCacheStats().size);
+    metrics.add('atrea_active_faults', 'Alarms and warnings currently reported by the unit', 'gauge', labels,
+      accessory.getActiveFaults().length);
+    metrics.add('atrea_last_poll_timestamp_seconds', 'Time of the last completed poll', 'gauge', labels,
+      Math.round(snapshot.timestamp / 1000));
+
+    (Object.keys(snapshot.values) as DatapointName[]).forEach(datapoint => {
+      const metric = DATAPOINT_METRICS[datapoint];
+      if (metric) {
+        metrics.add(metric.name, metric.help, 'gauge', { ...labels, ...metric.labels }, snapshot.values[datapoint]!);
+      }
+    });
+
+    const co2 = device.carbonDioxideSensor;
+    const raw = co2 ? snapshot.values[co2.datapoint] : undefined;
+    if (co2 && raw !== undefined) {
+      metrics.add('atrea_carbon_dioxide_ppm', 'CO2 concentration from the analog input sensor', 'gauge', labels,
+        Math.max(Math.round(raw * co2.scale + co2.offset), 0));
+    }
+  });
+
+  return metrics.toString();
+}
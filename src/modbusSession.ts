@@ -0,0 +1,191 @@
+import { DeviceOptions, PlatformOptions, ParsedConfig } from './configSchema';
+import {
+  ConnectionSettings, ModbusClient, OperationQueue, closeModbusClient, openModbusClient, retryWhileBusy,
+} from './modbusTransport';
+import { Transport } from './platform';
+import { DATAPOINT_NAMES, RegisterDefinition, RegisterMap, RegisterType, getModelProfile } from './profiles';
+import { SimulatedUnit } from './simulator';
+
+/**
+ * Short-lived Modbus connection to a unit outside the running platform, for the configuration UI
+ * and command-line tools.
+ *
+ * It goes through the same transport and operation queue as the accessories, so it treats the unit
+ * the same way: one operation at a time, spaced by the operation throttle, and "device busy" answers
+ * retried after a growing backoff.
+ */
+
+export interface SessionSettings extends ConnectionSettings {
+  simulate: boolean;
+  transport: Transport;
+  // Register map of the configured model; the simulated unit answers on these addresses
+  registers: RegisterMap;
+  // Top of the configured speed range, the simulated unit's full fan power
+  maxSpeed: number;
+  operationThrottle: number;
+}
+
+/**
+ * Register map of one unit: the model profile with explicit register fields from the configuration on top of it.
+ * Shared by the platform and the sessions, so both talk to the same addresses.
+ */
+export function resolveRegisterMap(model: string, entry: DeviceOptions, warn: (message: string) => void = () => undefined): RegisterMap {
+  const registers: RegisterMap = { ...getModelProfile(model).datapoints };
+
+  DATAPOINT_NAMES.forEach(datapoint => {
+    const override = entry.registers[datapoint];
+    if (!override) {
+      return;
+    }
+    const base = registers[datapoint];
+    if (!base && override.address === undefined) {
+      warn(`Ignoring register override for "${datapoint}" - model ${model} has no default address`);
+      return;
+    }
+    registers[datapoint] = { type: 'holding', ...base, ...override } as RegisterDefinition;
+  });
+
+  // The humidity sensor can name its own source register
+  const humidity = entry.humiditySensor;
+  if (humidity.address !== undefined) {
+    registers.humidity = { type: 'input', unit: '%', ...registers.humidity, address: humidity.address };
+  }
+  if (registers.humidity) {
+    registers.humidity = {
+      ...registers.humidity,
+      type: humidity.type,
+      ...(humidity.scale !== undefined && { scale: humidity.scale }),
+    };
+  }
+
+  if (entry.regimeRegister !== undefined) {
+    registers.regime = { ...registers.regime!, address: entry.regimeRegister };
+  }
+  if (entry.speedRegister !== undefined) {
+    registers.speed = { ...registers.speed!, address: entry.speedRegister };
+  }
+  if (entry.bypassStateRegister !== undefined) {
+    registers.bypassState = {
+      type: 'input',
+      description: 'Bypass damper position (0 = closed, 1 = open)',
+      ...registers.bypassState,
+      address: entry.bypassStateRegister,
+    };
+  }
+  if (entry.bypassControlRegister !== undefined) {
+    registers.bypassControl = {
+      type: 'holding',
+      writable: true,
+      description: 'Bypass damper control (0 = automatic, 1 = open, 2 = closed)',
+      ...registers.bypassControl,
+      address: entry.bypassControlRegister,
+    };
+  }
+
+  return registers;
+}
+
+/**
+ * Connection settings of one unit of a parsed configuration
+ */
+export function resolveSessionSettings(
+  entry: DeviceOptions,
+  timing: Pick<PlatformOptions, 'connectionTimeout' | 'operationThrottle'>,
+): SessionSettings {
+  const { simulate, transport, port, unitId } = entry;
+  return {
+    simulate,
+    transport,
+    ip: entry.ip ?? '',
+    port,
+    serial: transport === 'rtu'
+      ? {
+        path: entry.serialPath ?? '',
+        baudRate: entry.baudRate,
+        parity: entry.parity,
+        dataBits: entry.dataBits,
+        stopBits: entry.stopBits,
+      }
+      : undefined,
+    unitId,
+    registers: resolveRegisterMap(entry.model, entry),
+    maxSpeed: entry.speedRange.max,
+    connectionTimeout: timing.connectionTimeout,
+    operationThrottle: timing.operationThrottle,
+  };
+}
+
+/**
+ * Connection settings of the unit at an index of a parsed configuration, undefined when there is no such unit
+ */
+export function selectSessionSettings({ config, devices }: ParsedConfig, index: number = 0): SessionSettings | undefined {
+  const entry = devices[index];
+  return entry && resolveSessionSettings(entry, config);
+}
+
+export class ModbusSession {
+  private client?: ModbusClient;
+  private readonly queue: OperationQueue;
+  private busyAnswers: number = 0;
+
+  constructor(private readonly settings: SessionSettings) {
+    this.queue = new OperationQueue(settings.operationThrottle);
+  }
+
+  get address(): string {
+    if (this.settings.simulate) {
+      return 'simulated unit';
+    }
+    return this.settings.serial ? this.settings.serial.path : `${this.settings.ip}:${this.settings.port}`;
+  }
+
+  // Device busy answers retried so far
+  get deviceBusyTotal(): number {
+    return this.busyAnswers;
+  }
+
+  async open(): Promise<void> {
+    const { simulate, registers, maxSpeed } = this.settings;
+    this.client = await openModbusClient(this.settings, simulate ? new SimulatedUnit(registers, { maxSpeed }) : undefined);
+  }
+
+  async close(): Promise<void> {
+    const client = this.client;
+    this.client = undefined;
+    if (client) {
+      await closeModbusClient(client);
+    }
+  }
+
+  /**
+   * Read consecutive raw register values
+   */
+  read(type: RegisterType, address: number, count: number = 1): Promise<number[]> {
+    return this.run(async client => {
+      const result = type === 'input'
+        ? await client.readInputRegisters(address, count)
+        : await client.readHoldingRegisters(address, count);
+      return result.data;
+    });
+  }
+
+  /**
+   * Write a raw value to a holding register
+   */
+  write(address: number, value: number): Promise<void> {
+    return this.run(async client => {
+      await client.writeRegister(address, value);
+    });
+  }
+
+  private run<T>(operation: (client: ModbusClient) => Promise<T>): Promise<T> {
+    return this.queue.run(() => retryWhileBusy(() => {
+      if (!this.client) {
+        throw new Error('Not connected');
+      }
+      return operation(this.client);
+    }, () => {
+      this.busyAnswers++;
+    }));
+  }
+}
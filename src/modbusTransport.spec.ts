@@ -0,0 +1,61 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { OperationQueue } from './modbusTransport';
+
+const INTERVAL = 200;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('OperationQueue', () => {
+  it('runs an operation queued from inside a running one right away', async () => {
+    const queue = new OperationQueue(INTERVAL);
+    const result = await queue.run(() => queue.run(async () => 'nested'));
+    assert.equal(result, 'nested');
+  });
+
+  it('queues an operation started by a timer armed inside an earlier operation', async () => {
+    const queue = new OperationQueue(INTERVAL);
+    const started = new Map<string, number>();
+    const start = Date.now();
+    const record = (name: string) => async () => {
+      started.set(name, Date.now() - start);
+    };
+
+    let fromTimer: Promise<void> | undefined;
+    await queue.run(async () => {
+      await record('first')();
+      setTimeout(() => {
+        fromTimer = queue.run(record('timer'));
+      }, INTERVAL / 4);
+    });
+    const waiting = queue.run(record('waiting'));
+
+    await waiting;
+    await sleep(INTERVAL / 2);
+    await fromTimer;
+
+    assert.deepEqual(Array.from(started.keys()), ['first', 'waiting', 'timer']);
+    assert.ok(started.get('timer')! - started.get('waiting')! >= INTERVAL - 10);
+  });
+
+  it('queues an operation started by a deferred timer while its operation still runs', async () => {
+    const queue = new OperationQueue(INTERVAL);
+    const events: string[] = [];
+
+    let fromTimer: Promise<void> | undefined;
+    await queue.run(async () => {
+      queue.defer(() => {
+        fromTimer = queue.run(async () => {
+          events.push('timer');
+        });
+      }, 10);
+      await sleep(INTERVAL / 2);
+      events.push('first done');
+    });
+    await fromTimer;
+
+    assert.deepEqual(events, ['first done', 'timer']);
+  });
+});
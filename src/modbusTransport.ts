@@ -0,0 +1,368 @@
+import ModbusRTU from 'modbus-serial';
+import { AsyncLocalStorage } from 'async_hooks';
+import { SerialSettings } from './platform';
+import { SimulatedUnit } from './simulator';
+
+/**
+ * Modbus transport shared by the accessories and the short-lived sessions of the configuration UI and
+ * command-line tools: opening the TCP, RTU or simulated connection, and the operation queue that keeps
+ * one request on the wire at a time, spaced by the operation throttle, with "device busy" answers
+ * (exception 6) retried after a growing backoff.
+ *
+ * Units on one RS485 bus share its serial port, see SerialBus.
+ */
+
+// Modbus exception codes
+export const ILLEGAL_DATA_ADDRESS = 2;
+export const SLAVE_DEVICE_BUSY = 6;
+
+const DEVICE_BUSY_BACKOFF_BASE = 3000;
+const DEVICE_BUSY_MAX_BACKOFF = 15000;
+// Busy answers retried before an operation fails
+export const MAX_BUSY_RETRIES = 3;
+
+/**
+ * The part of the modbus-serial client the plugin talks to
+ */
+export type ModbusClient = Pick<
+  ModbusRTU, 'setID' | 'setTimeout' | 'close' | 'readHoldingRegisters' | 'readInputRegisters' | 'writeRegister'
+> & {
+  on?(event: 'error', listener: (error: unknown) => unknown): unknown;
+};
+
+export interface ConnectionSettings {
+  ip: string;
+  port: number;
+  serial?: SerialSettings;
+  unitId: number;
+  connectionTimeout: number;
+}
+
+/**
+ * Modbus exception code of a failed request, undefined for transport errors
+ */
+export function modbusExceptionCode(error: unknown): number | undefined {
+  if (error && typeof error === 'object' && 'modbusCode' in error && typeof error.modbusCode === 'number') {
+    return error.modbusCode;
+  }
+  return undefined;
+}
+
+export function isDeviceBusy(error: unknown): boolean {
+  return modbusExceptionCode(error) === SLAVE_DEVICE_BUSY;
+}
+
+/**
+ * Wait before retrying a busy unit, for the 1st, 2nd, ... busy answer in a row; the jitter keeps
+ * several masters from retrying in step
+ */
+export function deviceBusyBackoff(attempt: number): number {
+  return Math.min(DEVICE_BUSY_BACKOFF_BASE * Math.pow(1.5, attempt - 1), DEVICE_BUSY_MAX_BACKOFF) + Math.random() * 1000;
+}
+
+/**
+ * Run an operation, retrying "device busy" answers after the backoff; the last busy answer is thrown
+ * once MAX_BUSY_RETRIES is used up
+ */
+export async function retryWhileBusy<T>(
+  operation: () => Promise<T>,
+  onBusy: (attempt: number, delay: number) => void = () => undefined,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!isDeviceBusy(error) || attempt > MAX_BUSY_RETRIES) {
+        throw error;
+      }
+      const delay = deviceBusyBackoff(attempt);
+      onBusy(attempt, delay);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Open a connection to the unit within the connection timeout: the simulated unit when one is given,
+ * otherwise Modbus RTU over the serial bus, shared with the other units on it, or Modbus TCP
+ */
+export async function openModbusClient(
+  settings: ConnectionSettings,
+  simulator?: SimulatedUnit,
+  onError: (error: unknown) => void = () => undefined,
+): Promise<ModbusClient> {
+  const { serial, connectionTimeout } = settings;
+  if (!simulator && serial && !serial.path) {
+    throw new Error('Serial port path is required for Modbus RTU');
+  }
+
+  const connection = simulator ?? (serial ? new SerialBusClient(serial) : new ModbusRTU());
+  const client: ModbusClient = connection;
+  // A dropped connection shows up as a failed request; without a listener the error would crash the process
+  client.on?.('error', onError);
+
+  let timeout: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      connection instanceof ModbusRTU
+        ? connection.connectTCP(settings.ip, { port: settings.port, timeout: connectionTimeout })
+        : connection.connect(),
+      new Promise<never>((_, reject) => {
+        timeout = setTimeout(() => reject(new Error(`Connection timeout after ${connectionTimeout}ms`)), connectionTimeout);
+      }),
+    ]);
+  } catch (error) {
+    client.close(() => undefined);
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  client.setTimeout(connectionTimeout);
+  client.setID(settings.unitId);
+  return client;
+}
+
+/**
+ * One RS485 bus. Its units share the serial port, which is opened for the first of them and closed after
+ * the last, and their requests go out one at a time, each addressed to the unit making it.
+ */
+class SerialBus {
+  private static readonly buses = new Map<string, SerialBus>();
+
+  readonly opened: Promise<void>;
+  private readonly port = new ModbusRTU();
+  private readonly clients = new Set<SerialBusClient>();
+  private opening: boolean = true;
+  private failed: boolean = false;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  private constructor(private readonly serial: SerialSettings) {
+    this.port.on('error', error => this.clients.forEach(client => client.emitError(error)));
+    this.opened = this.port.connectRTUBuffered(serial.path, {
+      baudRate: serial.baudRate,
+      parity: serial.parity,
+      dataBits: serial.dataBits,
+      stopBits: serial.stopBits,
+    });
+    this.opened.then(() => {
+      this.opening = false;
+    }, () => {
+      this.opening = false;
+      this.failed = true;
+    });
+  }
+
+  /**
+   * The bus on a serial path, opened afresh when its port failed or was lost; units still on the old one
+   * move over when they reconnect
+   */
+  static attach(serial: SerialSettings, client: SerialBusClient): SerialBus {
+    let bus = SerialBus.buses.get(serial.path);
+    if (!bus || bus.failed || (!bus.opening && !bus.port.isOpen)) {
+      bus = new SerialBus(serial);
+      SerialBus.buses.set(serial.path, bus);
+    }
+    bus.clients.add(client);
+    return bus;
+  }
+
+  detach(client: SerialBusClient, callback: () => void): void {
+    this.clients.delete(client);
+    if (this.clients.size > 0) {
+      callback();
+      return;
+    }
+    if (SerialBus.buses.get(this.serial.path) === this) {
+      SerialBus.buses.delete(this.serial.path);
+    }
+    this.port.close(callback);
+  }
+
+  request<T>(unitId: number, timeout: number, operation: (port: ModbusRTU) => Promise<T>): Promise<T> {
+    const result = this.lock.then(() => {
+      this.port.setID(unitId);
+      this.port.setTimeout(timeout);
+      return operation(this.port);
+    });
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Connection of one unit to a shared serial bus
+ */
+class SerialBusClient implements ModbusClient {
+  private bus?: SerialBus;
+  private unitId: number = 1;
+  private timeout: number = 1000;
+  private errorListener?: (error: unknown) => unknown;
+
+  constructor(private readonly serial: SerialSettings) {}
+
+  connect(): Promise<void> {
+    this.bus = SerialBus.attach(this.serial, this);
+    return this.bus.opened;
+  }
+
+  close(callback?: () => void): void {
+    const bus = this.bus;
+    this.bus = undefined;
+    if (bus) {
+      bus.detach(this, () => callback?.());
+    } else {
+      callback?.();
+    }
+  }
+
+  on(event: 'error', listener: (error: unknown) => unknown): void {
+    this.errorListener = listener;
+  }
+
+  emitError(error: unknown): void {
+    this.errorListener?.(error);
+  }
+
+  setID(id: number): void {
+    this.unitId = id;
+  }
+
+  setTimeout(duration: number): void {
+    this.timeout = duration;
+  }
+
+  readHoldingRegisters(address: number, length: number): ReturnType<ModbusRTU['readHoldingRegisters']> {
+    return this.request(port => port.readHoldingRegisters(address, length));
+  }
+
+  readInputRegisters(address: number, length: number): ReturnType<ModbusRTU['readInputRegisters']> {
+    return this.request(port => port.readInputRegisters(address, length));
+  }
+
+  writeRegister(address: number, value: number): ReturnType<ModbusRTU['writeRegister']> {
+    return this.request(port => port.writeRegister(address, value));
+  }
+
+  private request<T>(operation: (port: ModbusRTU) => Promise<T>): Promise<T> {
+    if (!this.bus) {
+      return Promise.reject(new Error('Port Not Open'));
+    }
+    return this.bus.request(this.unitId, this.timeout, operation);
+  }
+}
+
+/**
+ * Close a connection, resolving with false when it did not close within the timeout
+ */
+export function closeModbusClient(client: ModbusClient, timeout: number = 2000): Promise<boolean> {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => resolve(false), timeout);
+    try {
+      client.close(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    } catch {
+      clearTimeout(timer);
+      resolve(false);
+    }
+  });
+}
+
+interface QueuedOperation {
+  execute: () => Promise<void>;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Runs operations one after another, never faster than the interval allows. An operation queued from
+ * inside a running one runs right away, as waiting behind its caller would deadlock.
+ *
+ * Timers inherit the context they are armed in, so one armed inside an operation would count as nested
+ * for good. The context is therefore marked done once its operation settles, and timers that start new
+ * work are best armed with defer, outside it.
+ */
+export class OperationQueue {
+  private operations: QueuedOperation[] = [];
+  private running?: Promise<void>;
+  private lastOperation: number = 0;
+  private readonly context = new AsyncLocalStorage<{ done: boolean }>();
+
+  constructor(private readonly interval: number) {}
+
+  get length(): number {
+    return this.operations.length;
+  }
+
+  run<T>(operation: () => Promise<T>, priority: boolean = false): Promise<T> {
+    const current = this.context.getStore();
+    if (current && !current.done) {
+      return operation();
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const queued: QueuedOperation = {
+        execute: () => operation().then(resolve, reject),
+        reject,
+      };
+      if (priority) {
+        this.operations.unshift(queued);
+      } else {
+        this.operations.push(queued);
+      }
+      if (!this.running) {
+        this.running = this.process();
+      }
+    });
+  }
+
+  /**
+   * setTimeout, with the callback queueing like any other caller even when armed inside an operation
+   */
+  defer(callback: () => void, delay: number): NodeJS.Timeout {
+    return this.context.exit(() => setTimeout(callback, delay));
+  }
+
+  /**
+   * Fail the operations still waiting
+   */
+  clear(reason: Error): void {
+    const operations = this.operations;
+    this.operations = [];
+    operations.forEach(operation => operation.reject(reason));
+  }
+
+  /**
+   * Settles once the queue has run dry
+   */
+  idle(): Promise<void> {
+    return this.running ?? Promise.resolve();
+  }
+
+  private async process(): Promise<void> {
+    try {
+      let operation: QueuedOperation | undefined;
+      while ((operation = this.operations.shift())) {
+        const wait = this.lastOperation + this.interval - Date.now();
+        if (wait > 0) {
+          await sleep(wait);
+        }
+        const store = { done: false };
+        try {
+          await this.context.run(store, operation.execute);
+        } finally {
+          store.done = true;
+        }
+        this.lastOperation = Date.now();
+      }
+    } finally {
+      // Cleared in the same turn the queue is found empty, so an operation queued right after starts a new run
+      this.running = undefined;
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,311 @@
+import { MqttClient, connect } from 'mqtt';
+import { HRUPlatform, MqttSettings } from './platform';
+import { HRUAccessory } from './platformAccessory';
+import { REGIMES, RegimeName, getModelProfile, isKnownRegime } from './profiles';
+
+/**
+ * MQTT bridge publishing unit state and taking commands, with Home Assistant discovery.
+ *
+ * ATREA units accept a single Modbus master, so Home Assistant cannot poll them next to Homebridge.
+ * The bridge serves it from the plugin's own connection: commands run through each accessory's
+ * operation queue and state is published from the polled values.
+ *
+ * Topics below <topicPrefix>/<device id>:
+ *   state          retained JSON state (DeviceStatus)
+ *   power/set      ON or OFF
+ *   regime/set     regime name, e.g. ventilation
+ *   speed/set      speed in percent, as in HomeKit
+ *   override/set   configured override mode, or none to end the running one
+ */
+
+// Coalesces the burst of changes from one poll or command into a single state message
+const PUBLISH_DELAY_MS = 500;
+const RECONNECT_PERIOD_MS = 10000;
+
+interface DiscoveryEntity {
+  component: 'fan' | 'sensor' | 'binary_sensor' | 'select';
+  objectId: string;
+  config: Record<string, unknown>;
+}
+
+export class MqttBridge {
+  private client?: MqttClient;
+  private readonly publishTimeouts = new Map<HRUAccessory, NodeJS.Timeout>();
+  private lastError?: string;
+
+  constructor(
+    private readonly platform: HRUPlatform,
+    private readonly settings: MqttSettings,
+  ) {}
+
+  private get availabilityTopic(): string {
+    return `${this.settings.topicPrefix}/status`;
+  }
+
+  private get homeAssistantStatusTopic(): string {
+    return `${this.settings.discoveryPrefix}/status`;
+  }
+
+  private deviceTopic(accessory: HRUAccessory, suffix: string): string {
+    return `${this.settings.topicPrefix}/${accessory.getDeviceSettings().deviceId}/${suffix}`;
+  }
+
+  start(): void {
+    const { url, username, password } = this.settings;
+    const client = connect(url, {
+      username,
+      password,
+      clientId: `homebridge-atrea-${Math.random().toString(16).substr(2, 8)}`,
+      reconnectPeriod: RECONNECT_PERIOD_MS,
+      will: { topic: this.availabilityTopic, payload: Buffer.from('offline'), retain: true, qos: 1 },
+    });
+
+    client.on('connect', () => {
+      this.platform.log.info(`📨 MQTT connected to ${url}`);
+      this.lastError = undefined;
+
+      client.publish(this.availabilityTopic, 'online', { retain: true, qos: 1 });
+      client.subscribe(`${this.settings.topicPrefix}/+/+/set`);
+      if (this.settings.discovery) {
+        client.subscribe(this.homeAssistantStatusTopic);
+        this.publishDiscovery();
+      }
+      this.platform.getAccessories().forEach(accessory => this.publishState(accessory));
+    });
+
+    // The client keeps reconnecting; repeating the same failure every few seconds would flood the log
+    client.on('error', error => {
+      if (error.message !== this.lastError) {
+        this.platform.log.warn(`⚠️  MQTT: ${error.message}`);
+      } else {
+        this.platform.log.debug(`MQTT: ${error.message}`);
+      }
+      this.lastError = error.message;
+    });
+
+    client.on('message', (topic, payload) => this.handleMessage(topic, payload.toString().trim()));
+
+    this.platform.getAccessories().forEach(accessory => {
+      accessory.onStateChange(() => this.schedulePublish(accessory));
+    });
+
+    this.client = client;
+  }
+
+  async stop(): Promise<void> {
+    this.publishTimeouts.forEach(timeout => clearTimeout(timeout));
+    this.publishTimeouts.clear();
+
+    const client = this.client;
+    this.client = undefined;
+    if (!client) {
+      return;
+    }
+
+    if (client.connected) {
+      await client.publishAsync(this.availabilityTopic, 'offline', { retain: true, qos: 1 }).catch(() => undefined);
+    }
+    await client.endAsync();
+  }
+
+  private handleMessage(topic: string, payload: string): void {
+    if (topic === this.homeAssistantStatusTopic) {
+      // Home Assistant restarted and needs the discovery configuration again
+      if (payload === 'online') {
+        this.publishDiscovery();
+      }
+      return;
+    }
+
+    const [deviceId, command] = topic.slice(this.settings.topicPrefix.length + 1).split('/');
+    const accessory = this.platform.findAccessory(deviceId);
+    if (!accessory) {
+      this.platform.log.debug(`MQTT: Ignoring command for unknown device ${deviceId}`);
+      return;
+    }
+
+    this.runCommand(accessory, command, payload).catch(error => {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      this.platform.log.warn(`⚠️  ${accessory.getDeviceSettings().name}: MQTT ${command} command failed: ${errorMsg}`);
+    });
+  }
+
+  private async runCommand(accessory: HRUAccessory, command: string, payload: string): Promise<void> {
+    const device = accessory.getDeviceSettings();
+
+    switch (command) {
+      case 'power': {
+        const value = payload.toUpperCase();
+        if (value !== 'ON' && value !== 'OFF') {
+          throw new Error(`Invalid power "${payload}". Must be ON or OFF`);
+        }
+        this.platform.log.info(`${device.name}: MQTT switches the unit ${value === 'ON' ? 'on' : 'off'}`);
+        await accessory.setPower(value === 'ON');
+        break;
+      }
+      case 'regime':
+        if (!isKnownRegime(payload)) {
+          throw new Error(`Unknown regime "${payload}". Must be one of ${Object.keys(REGIMES).join(', ')}`);
+        }
+        this.platform.log.info(`${device.name}: MQTT sets regime ${REGIMES[payload].name}`);
+        await accessory.setRegime(payload);
+        break;
+      case 'speed': {
+        const speed = Number(payload);
+        if (payload === '' || !Number.isFinite(speed) || speed < 0 || speed > 100) {
+          throw new Error(`Invalid speed "${payload}". Must be a number of percent 0-100`);
+        }
+        this.platform.log.info(`${device.name}: MQTT sets speed ${speed}%`);
+        await accessory.setSpeed(speed);
+        break;
+      }
+      case 'override': {
+        const mode = device.overrides.find(override => override.mode === payload)?.mode;
+        if (payload !== 'none' && !mode) {
+          const modes = ['none', ...device.overrides.map(override => override.mode)];
+          throw new Error(`Unknown override "${payload}". Must be one of ${modes.join(', ')}`);
+        }
+        this.platform.log.info(`${device.name}: MQTT ${mode ? `starts ${mode}` : 'ends the running'} override`);
+        await accessory.setOverride(mode ?? null);
+        break;
+      }
+      default:
+        throw new Error('Unknown command');
+    }
+  }
+
+  private schedulePublish(accessory: HRUAccessory): void {
+    if (!this.client || this.publishTimeouts.has(accessory)) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      this.publishTimeouts.delete(accessory);
+      this.publishState(accessory);
+    }, PUBLISH_DELAY_MS);
+    this.publishTimeouts.set(accessory, timeout);
+  }
+
+  private publishState(accessory: HRUAccessory): void {
+    if (!this.client?.connected) {
+      return;
+    }
+
+    accessory.getStatus()
+      .then(status => {
+        this.client?.publish(this.deviceTopic(accessory, 'state'), JSON.stringify(status), { retain: true });
+      })
+      .catch(error => {
+        this.platform.log.debug(`MQTT: Failed to read the state of ${accessory.getDeviceSettings().name}:`, error);
+      });
+  }
+
+  private publishDiscovery(): void {
+    if (!this.client || !this.settings.discovery) {
+      return;
+    }
+
+    this.platform.getAccessories().forEach(accessory => {
+      const { deviceId } = accessory.getDeviceSettings();
+      this.discoveryEntities(accessory).forEach(({ component, objectId, config }) => {
+        const topic = `${this.settings.discoveryPrefix}/${component}/${deviceId}/${objectId}/config`;
+        this.client?.publish(topic, JSON.stringify(config), { retain: true });
+      });
+    });
+  }
+
+  /**
+   * Home Assistant entities for a unit; all of them read the retained JSON state topic
+   */
+  private discoveryEntities(accessory: HRUAccessory): DiscoveryEntity[] {
+    const device = accessory.getDeviceSettings();
+    const stateTopic = this.deviceTopic(accessory, 'state');
+    const entity = (objectId: string, name: string | null) => ({
+      name,
+      unique_id: `atrea_${device.deviceId}_${objectId}`,
+      state_topic: stateTopic,
+      availability_topic: this.availabilityTopic,
+      device: {
+        identifiers: [`atrea_${device.deviceId}`],
+        name: device.name,
+        manufacturer: 'ATREA',
+        model: getModelProfile(device.model).name,
+      },
+    });
+    const regimes = (Object.keys(REGIMES) as RegimeName[]).filter(regime => regime !== 'off');
+
+    const entities: DiscoveryEntity[] = [{
+      component: 'fan',
+      objectId: 'fan',
+      config: {
+        // A null name makes the fan the unit's main entity, named after the device
+        ...entity('fan', null),
+        command_topic: this.deviceTopic(accessory, 'power/set'),
+        state_value_template: '{{ "ON" if value_json.on else "OFF" }}',
+        percentage_command_topic: this.deviceTopic(accessory, 'speed/set'),
+        percentage_state_topic: stateTopic,
+        percentage_value_template: '{{ value_json.speedPercent | round(0) }}',
+        preset_modes: regimes,
+        preset_mode_command_topic: this.deviceTopic(accessory, 'regime/set'),
+        preset_mode_state_topic: stateTopic,
+        preset_mode_value_template: '{{ value_json.regime if value_json.on else "None" }}',
+      },
+    }];
+
+    const sensor = (objectId: string, name: string, valueTemplate: string, extra: Record<string, unknown>) => {
+      entities.push({
+        component: 'sensor',
+        objectId,
+        config: { ...entity(objectId, name), value_template: valueTemplate, state_class: 'measurement', ...extra },
+      });
+    };
+
+    device.temperatureSensors.forEach(({ datapoint, name }) => {
+      sensor(datapoint, name, `{{ value_json.values.${datapoint} }}`, { device_class: 'temperature', unit_of_measurement: '°C' });
+    });
+    if (device.humiditySensor) {
+      sensor('humidity', device.humiditySensor.name, '{{ value_json.values.humidity }}', {
+        device_class: 'humidity',
+        unit_of_measurement: '%',
+      });
+    }
+    if (device.carbonDioxideSensor) {
+      const { datapoint, name, scale, offset } = device.carbonDioxideSensor;
+      sensor('carbonDioxide', name, `{{ (value_json.values.${datapoint} * ${scale} + ${offset}) | round(0) }}`, {
+        device_class: 'carbon_dioxide',
+        unit_of_measurement: 'ppm',
+      });
+    }
+    if (device.filterMaintenance) {
+      sensor('filterRemainingDays', device.filterMaintenance.name, '{{ value_json.values.filterRemainingDays }}', {
+        device_class: 'duration',
+        unit_of_measurement: 'd',
+      });
+    }
+
+    entities.push({
+      component: 'binary_sensor',
+      objectId: 'fault',
+      config: {
+        ...entity('fault', 'Fault'),
+        device_class: 'problem',
+        value_template: '{{ "ON" if value_json.activeFaults | length > 0 else "OFF" }}',
+      },
+    });
+
+    if (device.overrides.length > 0) {
+      entities.push({
+        component: 'select',
+        objectId: 'override',
+        config: {
+          ...entity('override', 'Override'),
+          command_topic: this.deviceTopic(accessory, 'override/set'),
+          options: ['none', ...device.overrides.map(override => override.mode)],
+          value_template: '{{ value_json.override.mode if value_json.override else "none" }}',
+        },
+      });
+    }
+
+    return entities;
+  }
+}
@@ -1,53 +1,1393 @@
+import { existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
 import { API, DynamicPlatformPlugin, Logger, PlatformAccessory, PlatformConfig, Service, Characteristic } from 'homebridge';
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings';
+import { SchedulePoint } from './schedule';
 import { HRUAccessory } from './platformAccessory';
+import { RestApiServer } from './restApi';
+import { MqttBridge } from './mqttBridge';
+import { RegisterScanner, formatScanReport } from './scanner';
+import { resolveRegisterMap } from './modbusSession';
+import {
+  DeviceOptions, HRUConfig, HRUDeviceConfig, MAX_DEVICES, PlatformOptions, connectionAddress, deviceKey, parseConfig,
+} from './configSchema';
+import { DatapointName, HRUModel, REGIMES, RegimeName, RegisterMap, getModelProfile } from './profiles';
+
+export type TemperatureProbe = 'outdoor' | 'supply' | 'extract' | 'exhaust' | 'indoor';
+
+export type Transport = 'tcp' | 'rtu';
+
+export type SerialParity = 'none' | 'even' | 'odd';
+
+export type ServiceType = 'fan' | 'fanv2' | 'airPurifier';
+
+export type ClimateServiceType = 'heaterCooler' | 'thermostat';
+
+export type AnalogInput = 'in1' | 'in2';
+
+export type OverrideMode = 'boost' | 'fireplace' | 'away';
+
+export type SpeedUnit = 'percent' | 'm3h';
+
+export interface AnalogSensorSettings {
+  name: string;
+  datapoint: DatapointName;
+  scale: number;
+  offset: number;
+}
+
+export interface CarbonDioxideSensorSettings extends AnalogSensorSettings {
+  threshold: number;
+}
+
+export interface AirQualitySensorSettings extends AnalogSensorSettings {
+  pollutant: 'co2' | 'voc';
+  thresholds: number[];
+}
+
+export interface FilterMaintenanceSettings {
+  name: string;
+  lifetimeDays: number;
+}
+
+/**
+ * Speed register range in register units (% or m³/h); 0 always means stopped
+ */
+export interface SpeedRangeSettings {
+  unit: SpeedUnit;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface ScheduleSettings {
+  name: string;
+  points: SchedulePoint[];
+}
+
+export interface OverrideSettings {
+  mode: OverrideMode;
+  name: string;
+  duration: number;
+  regime: RegimeName;
+  speed?: number;
+}
+
+export interface BypassSettings {
+  name: string;
+  control: boolean;
+}
+
+export interface ClimateSettings {
+  name: string;
+  serviceType: ClimateServiceType;
+  // Datapoint shown as the current temperature
+  currentDatapoint: DatapointName;
+  minTemperature: number;
+  maxTemperature: number;
+}
+
+export interface RestApiSettings {
+  port: number;
+  bindAddress: string;
+  // Required as a Bearer token on every request when set
+  token?: string;
+}
+
+export interface MqttSettings {
+  url: string;
+  username?: string;
+  password?: string;
+  topicPrefix: string;
+  // Home Assistant MQTT discovery
+  discovery: boolean;
+  discoveryPrefix: string;
+}
+
+export interface HumiditySensorSettings {
+  name: string;
+}
+
+export interface TemperatureSensorSettings {
+  probe: TemperatureProbe;
+  datapoint: DatapointName;
+  name: string;
+}
+
+export interface SerialSettings {
+  path: string;
+  baudRate: number;
+  parity: SerialParity;
+  dataBits: number;
+  stopBits: number;
+}
+
+/**
+ * Resolved per-unit settings handed to each HRUAccessory
+ */
+export interface HRUDeviceSettings {
+  name: string;
+  model: HRUModel;
+  // No model configured: the unit is scanned once and a matching model proposed in the log
+  detectModel: boolean;
+  // Answered by an in-process SimulatedUnit instead of real hardware
+  simulate: boolean;
+  transport: Transport;
+  ip: string;
+  port: number;
+  serial?: SerialSettings;
+  unitId: number;
+  // ip:port for TCP, serial path for RTU; identifies the single Modbus connection to the unit
+  address: string;
+  regimeRegister: number;
+  speedRegister: number;
+  registers: RegisterMap;
+  serviceType: ServiceType;
+  speedRange: SpeedRangeSettings;
+  temperatureSensors: TemperatureSensorSettings[];
+  onRegime: RegimeName;
+  regimeSwitches: RegimeName[];
+  filterMaintenance?: FilterMaintenanceSettings;
+  carbonDioxideSensor?: CarbonDioxideSensorSettings;
+  airQualitySensor?: AirQualitySensorSettings;
+  humiditySensor?: HumiditySensorSettings;
+  bypass?: BypassSettings;
+  climate?: ClimateSettings;
+  overrides: OverrideSettings[];
+  schedule?: ScheduleSettings;
+  deviceId: string;
+  uuid: string;
+}
+
+const TEMPERATURE_PROBES: Record<TemperatureProbe, DatapointName> = {
+  outdoor: 'outdoorTemperature',
+  supply: 'supplyTemperature',
+  extract: 'extractTemperature',
+  exhaust: 'exhaustTemperature',
+  indoor: 'indoorTemperature',
+};
+
+const OVERRIDE_MODES: OverrideMode[] = ['boost', 'fireplace', 'away'];
+
+export function isOverrideMode(mode: string): mode is OverrideMode {
+  return (OVERRIDE_MODES as string[]).includes(mode);
+}
+
+/**
+ * Override settings from the configuration of its mode; also used by the command-line tool
+ */
+export function resolveOverride(mode: OverrideMode, override: DeviceOptions['overrides'][OverrideMode]): OverrideSettings {
+  const { name, duration, regime, speed } = override;
+  return { mode, name, duration, regime, speed };
+}
+
+const ANALOG_INPUTS: Record<AnalogInput, DatapointName> = {
+  in1: 'analogInput1',
+  in2: 'analogInput2',
+};
+
+// Lets the first polls finish before the scan adds its reads to the queue
+const MODEL_DETECTION_DELAY_MS = 60000;
+
+// Identity of the single unit without a devices list, as registered by the first plugin versions
+const LEGACY_DEVICE_ID = 'hru-001';
+const LEGACY_ACCESSORY_SEED = 'homebridge-hru-001';
+
+const DEFAULT_AIR_QUALITY_THRESHOLDS: Record<'co2' | 'voc', number[]> = {
+  co2: [600, 800, 1000, 1400],
+  voc: [65, 220, 660, 2200],
+};
+
+interface PlatformDiagnostics {
+  totalInstances: number;
+  activeConnections: string[];
+  deviceHealth: Array<{
+    index: number;
+    name: string;
+    instanceId: string;
+    connectionKey: string;
+    successRate: number;
+    operations: number;
+    consecutiveFailures: number;
+    cacheSize: number;
+    isConnected: boolean;
+    isConnecting: boolean;
+    isCleaningUp: boolean;
+  }>;
+  platformHealth: number;
+  anomalies: string[];
+}
 
 export class HRUPlatform implements DynamicPlatformPlugin {
-  public readonly Service: typeof Service = this.api.hap.Service;
-  public readonly Characteristic: typeof Characteristic = this.api.hap.Characteristic;
+  public readonly Service: typeof Service;
+  public readonly Characteristic: typeof Characteristic;
 
   public readonly accessories: PlatformAccessory[] = [];
+  private readonly hruAccessories: HRUAccessory[] = [];
+
+  // Configuration with strict validation and safe defaults
+  public readonly devices: HRUDeviceSettings[];
+  public readonly connectionTimeout: number;
+  public readonly operationThrottle: number;
+  public readonly maxRetries: number;
+  public readonly heartbeatInterval: number;
+  public readonly cacheTimeout: number;
+  // 0 turns background polling off, characteristics are then read on demand
+  public readonly pollInterval: number;
+  private readonly restApi?: RestApiSettings;
+  private restApiServer?: RestApiServer;
+  private readonly mqtt?: MqttSettings;
+  private mqttBridge?: MqttBridge;
+
+  // Enhanced platform state management
+  private readonly configValidationErrors: string[];
+  private cleanupHandled: boolean = false;
+  private shutdownInitiated: boolean = false;
+  private healthCheckInterval?: NodeJS.Timeout;
+  private diagnosticsInterval?: NodeJS.Timeout;
+  private scheduleInterval?: NodeJS.Timeout;
+  private lastScheduleMinute?: number;
+  private platformStartTime: number = Date.now();
+
+  // Enhanced resource tracking
+  private timeoutRegistry = new Set<NodeJS.Timeout>();
+  private cleanupPromise?: Promise<void>;
 
-  public ip: string;
-  public port: number;
-  public regimeRegister: number;
-  public speedRegister: number;
+  // Platform-level connection coordination
+  private readonly platformId: string;
+  private readonly maxDevicesPerPlatform: number = MAX_DEVICES;
+
+  // Diagnostic state
+  private lastDiagnostics?: PlatformDiagnostics;
+  private consecutiveHealthCheckFailures: number = 0;
 
   constructor(
     public readonly log: Logger,
     public readonly config: PlatformConfig,
     public readonly api: API,
   ) {
-    this.ip = config.ip || '192.168.0.20';
-    this.port = config.port || 502;
-    this.regimeRegister = config.regimeRegister || 1001;
-    this.speedRegister = config.speedRegister || 1000;
+    // Generate unique platform identifier
+    this.platformId = `platform-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+
+    // Initialize services
+    this.Service = this.api.hap.Service;
+    this.Characteristic = this.api.hap.Characteristic;
+
+    this.log.info(`Initializing ATREA HRU Platform ${this.platformId}`);
+
+    // Validate against the configuration schema, which also applies the defaults and clamps the timings
+    this.log.debug('Validating platform configuration...');
+    const { config: options, devices, errors, warnings } = parseConfig(config);
+    warnings.forEach(warning => this.log.warn(`Configuration: ${warning}`));
+    this.configValidationErrors = errors;
 
-    this.log.debug('Finished initializing platform:', this.config.name);
+    this.connectionTimeout = options.connectionTimeout;
+    this.operationThrottle = options.operationThrottle;
+    this.maxRetries = options.maxRetries;
+    this.heartbeatInterval = options.heartbeatInterval;
+    this.cacheTimeout = options.cacheTimeout;
+    this.pollInterval = options.pollInterval;
 
+    // Stop initialization before anything is built from an invalid configuration
+    if (errors.length > 0) {
+      this.devices = [];
+      this.log.error(`❌ Configuration validation failed with ${errors.length} error(s):`);
+      errors.forEach(error => this.log.error(`  ❌ ${error}`));
+      this.log.error('Platform initialization aborted due to configuration errors');
+      return;
+    }
+    this.log.debug('✅ Configuration validation passed');
+
+    this.devices = this.resolveDevices(devices);
+    this.restApi = this.resolveRestApi(options.restApi);
+    this.mqtt = this.resolveMqtt(options.mqtt);
+
+    // Enhanced configuration logging
+    this.logConfiguration();
+
+    this.log.debug(`Platform ${this.platformId} initialized successfully`);
+
+    // Enhanced event handlers with better coordination
+    this.setupEventHandlers();
+
+    // Start platform diagnostics
+    this.startPlatformDiagnostics();
+  }
+
+  private setupEventHandlers(): void {
+    // Homebridge lifecycle events
     this.api.on('didFinishLaunching', () => {
-      log.debug('Executed didFinishLaunching callback');
+      this.log.debug(`Homebridge finished launching, platform ${this.platformId} discovering devices...`);
       this.discoverDevices();
     });
+
+    this.api.on('shutdown', () => {
+      this.log.debug(`Homebridge shutdown initiated for platform ${this.platformId}`);
+      this.initiateShutdown();
+    });
+
+    // Enhanced process handlers with coordination
+    const handleShutdown = async (signal: string) => {
+      this.log.info(`Platform ${this.platformId} received ${signal}, initiating cleanup...`);
+      await this.initiateShutdown();
+
+      // Give some time for cleanup before forcing exit
+      setTimeout(() => {
+        this.log.warn(`Platform ${this.platformId} forcing exit after cleanup timeout`);
+        process.exit(signal === 'SIGTERM' ? 0 : 1);
+      }, 15000); // 15s timeout for cleanup
+    };
+
+    // Only setup process handlers if not already setup by another platform instance
+    if (!process.listenerCount('SIGTERM')) {
+      process.on('SIGTERM', () => handleShutdown('SIGTERM'));
+    }
+    if (!process.listenerCount('SIGINT')) {
+      process.on('SIGINT', () => handleShutdown('SIGINT'));
+    }
+
+    process.on('uncaughtException', (error) => {
+      this.log.error(`Platform ${this.platformId} uncaught exception:`, error);
+      this.initiateShutdown().then(() => {
+        setTimeout(() => process.exit(1), 2000);
+      });
+    });
+
+    process.on('unhandledRejection', (reason, promise) => {
+      this.log.error(`Platform ${this.platformId} unhandled rejection at:`, promise, 'reason:', reason);
+      // Don't exit on unhandled rejection, just log it
+    });
+  }
+
+  /**
+   * Build the list of units to expose. Without a `devices` list the top-level
+   * connection settings describe a single unit, as in earlier versions.
+   */
+  private resolveDevices(entries: DeviceOptions[]): HRUDeviceSettings[] {
+    // Model as configured, before the generic profile is filled in as the default
+    const config = this.config as HRUConfig;
+
+    return entries.map((entry, index) => {
+      const { name, model, simulate, transport, ip = '', port, unitId } = entry;
+      const registers = resolveRegisterMap(model, entry, message => this.log.warn(message));
+      const regimeRegister = registers.regime!.address;
+      const speedRegister = registers.speed!.address;
+
+      const serial: SerialSettings | undefined = transport === 'rtu'
+        ? {
+          path: entry.serialPath ?? '',
+          baudRate: entry.baudRate,
+          parity: entry.parity,
+          dataBits: entry.dataBits,
+          stopBits: entry.stopBits,
+        }
+        : undefined;
+
+      // The single unit keeps the accessory of the first plugin versions; entries of devices are keyed by id or name,
+      // so neither moving a unit nor changing its model or registers replaces the accessory and its HomeKit setup
+      const key = config.devices ? deviceKey(entry) : LEGACY_DEVICE_ID;
+      // A simulated unit gets its own identity so it never takes over the cached accessory of a real one
+      const deviceId = simulate ? `simulated-${key}` : key;
+      const uuidSeed = config.devices || simulate ? `homebridge-atrea-${deviceId}` : LEGACY_ACCESSORY_SEED;
+
+      return {
+        name,
+        model,
+        detectModel: !simulate && this.needsModelDetection(config.devices?.[index] ?? config, config),
+        simulate,
+        transport,
+        ip,
+        port,
+        serial,
+        unitId,
+        address: connectionAddress(entry, index),
+        regimeRegister,
+        speedRegister,
+        registers,
+        serviceType: entry.serviceType,
+        speedRange: entry.speedRange,
+        temperatureSensors: this.resolveTemperatureSensors(name, registers, entry),
+        onRegime: entry.onRegime,
+        regimeSwitches: entry.regimeSwitches ?? [],
+        filterMaintenance: this.resolveFilterMaintenance(name, registers, entry),
+        carbonDioxideSensor: this.resolveCarbonDioxideSensor(name, registers, entry),
+        airQualitySensor: this.resolveAirQualitySensor(name, registers, entry),
+        humiditySensor: this.resolveHumiditySensor(name, registers, entry),
+        bypass: this.resolveBypass(name, registers, entry),
+        climate: this.resolveClimate(name, registers, entry),
+        overrides: OVERRIDE_MODES
+          .filter(mode => entry.overrides[mode].enabled)
+          .map(mode => resolveOverride(mode, entry.overrides[mode])),
+        schedule: this.resolveSchedule(name, entry),
+        deviceId,
+        uuid: this.api.hap.uuid.generate(uuidSeed),
+      };
+    });
+  }
+
+  // Units set up by hand, with a model or with their own regime and speed registers, are left alone
+  private needsModelDetection(raw: HRUDeviceConfig, config: HRUConfig): boolean {
+    return !(raw.model || config.model) && (raw.regimeRegister === undefined || raw.speedRegister === undefined);
+  }
+
+  private resolveTemperatureSensors(deviceName: string, registers: RegisterMap, entry: DeviceOptions): TemperatureSensorSettings[] {
+    const sensors: TemperatureSensorSettings[] = [];
+
+    (Object.keys(TEMPERATURE_PROBES) as TemperatureProbe[]).forEach(probe => {
+      const sensorConfig = entry.temperatureSensors[probe];
+      if (!sensorConfig.enabled) {
+        return;
+      }
+
+      const datapoint = TEMPERATURE_PROBES[probe];
+      if (!registers[datapoint]) {
+        this.log.warn(`${deviceName}: ${probe} temperature sensor enabled but no register is known for ${datapoint} - skipping`);
+        return;
+      }
+
+      sensors.push({ probe, datapoint, name: sensorConfig.name });
+    });
+
+    return sensors;
+  }
+
+  private resolveFilterMaintenance(
+    deviceName: string,
+    registers: RegisterMap,
+    entry: DeviceOptions,
+  ): FilterMaintenanceSettings | undefined {
+    const { enabled, name, lifetimeDays } = entry.filterMaintenance;
+    if (!enabled) {
+      return undefined;
+    }
+
+    if (!registers.filterWarning) {
+      this.log.warn(`${deviceName}: Filter maintenance enabled but no register is known for filterWarning - skipping`);
+      return undefined;
+    }
+
+    return { name, lifetimeDays };
+  }
+
+  private resolveAnalogSensor(
+    deviceName: string,
+    registers: RegisterMap,
+    sensorConfig: { enabled: boolean; name: string; input: AnalogInput; scale: number; offset: number },
+    label: string,
+  ): AnalogSensorSettings | undefined {
+    if (!sensorConfig.enabled) {
+      return undefined;
+    }
+
+    const datapoint = ANALOG_INPUTS[sensorConfig.input];
+    if (!registers[datapoint]) {
+      this.log.warn(`${deviceName}: ${label} sensor enabled but no register is known for ${datapoint} - skipping`);
+      return undefined;
+    }
+
+    const { name, scale, offset } = sensorConfig;
+    return { name, datapoint, scale, offset };
+  }
+
+  private resolveCarbonDioxideSensor(
+    deviceName: string,
+    registers: RegisterMap,
+    entry: DeviceOptions,
+  ): CarbonDioxideSensorSettings | undefined {
+    const sensor = this.resolveAnalogSensor(deviceName, registers, entry.carbonDioxideSensor, 'Carbon Dioxide');
+    return sensor && { ...sensor, threshold: entry.carbonDioxideSensor.threshold };
+  }
+
+  private resolveAirQualitySensor(
+    deviceName: string,
+    registers: RegisterMap,
+    entry: DeviceOptions,
+  ): AirQualitySensorSettings | undefined {
+    const sensor = this.resolveAnalogSensor(deviceName, registers, entry.airQualitySensor, 'Air Quality');
+    const { pollutant, thresholds } = entry.airQualitySensor;
+    return sensor && { ...sensor, pollutant, thresholds: thresholds ?? DEFAULT_AIR_QUALITY_THRESHOLDS[pollutant] };
+  }
+
+  private resolveHumiditySensor(
+    deviceName: string,
+    registers: RegisterMap,
+    entry: DeviceOptions,
+  ): HumiditySensorSettings | undefined {
+    if (!entry.humiditySensor.enabled) {
+      return undefined;
+    }
+
+    if (!registers.humidity) {
+      this.log.warn(`${deviceName}: Humidity sensor enabled but no register is known for humidity - set humiditySensor.address`);
+      return undefined;
+    }
+
+    return { name: entry.humiditySensor.name };
+  }
+
+  private resolveSchedule(deviceName: string, entry: DeviceOptions): ScheduleSettings | undefined {
+    const { enabled, name, points } = entry.schedule;
+    if (!enabled) {
+      return undefined;
+    }
+
+    if (points.length === 0) {
+      this.log.warn(`${deviceName}: Schedule enabled but it has no points - skipping`);
+      return undefined;
+    }
+
+    return { name, points };
+  }
+
+  private resolveBypass(deviceName: string, registers: RegisterMap, entry: DeviceOptions): BypassSettings | undefined {
+    if (!entry.bypass.enabled) {
+      return undefined;
+    }
+
+    if (!registers.bypassState) {
+      this.log.warn(`${deviceName}: Bypass enabled but no register is known for bypass state - set bypassStateRegister`);
+      return undefined;
+    }
+
+    const control = entry.bypass.control && registers.bypassControl?.type === 'holding';
+    if (entry.bypass.control && !control) {
+      this.log.warn(`${deviceName}: Bypass control requested but no writable bypass control register is known - state only`);
+    }
+
+    return { name: entry.bypass.name, control };
+  }
+
+  private resolveClimate(deviceName: string, registers: RegisterMap, entry: DeviceOptions): ClimateSettings | undefined {
+    const climate = entry.climate;
+    if (!climate.enabled) {
+      return undefined;
+    }
+
+    if (registers.temperatureSetpoint?.type !== 'holding') {
+      this.log.warn(`${deviceName}: Climate service enabled but no writable register is known for temperatureSetpoint - skipping`);
+      return undefined;
+    }
+
+    const probe = climate.currentTemperature;
+    const currentDatapoint = TEMPERATURE_PROBES[probe];
+    if (!registers[currentDatapoint]) {
+      this.log.warn(`${deviceName}: Climate service enabled but no register is known for the ${probe} temperature - skipping`);
+      return undefined;
+    }
+
+    const { name, serviceType, minTemperature, maxTemperature } = climate;
+    return { name, serviceType, currentDatapoint, minTemperature, maxTemperature };
+  }
+
+  private resolveRestApi(restApi: PlatformOptions['restApi']): RestApiSettings | undefined {
+    if (!restApi.enabled) {
+      return undefined;
+    }
+
+    const { port, bindAddress, token } = restApi;
+    return { port, bindAddress, token };
+  }
+
+  private resolveMqtt(mqtt: PlatformOptions['mqtt']): MqttSettings | undefined {
+    if (!mqtt.enabled) {
+      return undefined;
+    }
+
+    const { url, username, password, topicPrefix, discovery, discoveryPrefix } = mqtt;
+    return { url, username, password, topicPrefix, discovery, discoveryPrefix };
+  }
+
+  private logConfiguration(): void {
+    this.log.info('🔋 ATREA HRU Platform Configuration:');
+    this.log.info(`   🔧 Platform ID: ${this.platformId}`);
+    this.devices.forEach(device => {
+      this.log.info(`   📱 Device: ${device.name} (${getModelProfile(device.model).name})`);
+      if (device.simulate) {
+        this.log.warn(`      🧪 Simulation mode: ${device.name} is answered by a simulated unit, no hardware is contacted`);
+      } else if (device.serial) {
+        const { path, baudRate, parity, dataBits, stopBits } = device.serial;
+        this.log.info(
+          `      🔌 Serial: ${path} ${baudRate} baud, ${dataBits}${parity[0].toUpperCase()}${stopBits}, unit ID ${device.unitId}`,
+        );
+      } else {
+        this.log.info(`      🌐 Address: ${device.ip}:${device.port}`);
+      }
+      this.log.info(`      📊 Registers: Regime=${device.regimeRegister}, Speed=${device.speedRegister}`);
+      if (device.bypass) {
+        const control = device.bypass.control ? `, control=${device.registers.bypassControl!.address}` : '';
+        this.log.info(`      🌀 Bypass: state=${device.registers.bypassState!.address}${control}`);
+      }
+      if (device.climate) {
+        const { serviceType, minTemperature, maxTemperature } = device.climate;
+        this.log.info(
+          `      🌡  Climate: ${serviceType}, setpoint ${minTemperature}-${maxTemperature}°C ` +
+          `(register ${device.registers.temperatureSetpoint!.address})`,
+        );
+      }
+      this.log.info(`      🔀 On regime: ${REGIMES[device.onRegime].name}`);
+      const range = device.speedRange;
+      if (range.unit === 'm3h' || range.min > 0 || range.max < 100 || range.step > 1) {
+        const unit = range.unit === 'm3h' ? ' m³/h' : '%';
+        this.log.info(`      🎚  Speed range: ${range.min}-${range.max}${unit}, step ${range.step}`);
+      }
+    });
+    this.log.info(`   ⏱️  Timeouts: Connection=${this.connectionTimeout}ms, Cache=${this.cacheTimeout}ms`);
+    this.log.info(`   🔄 Limits: MaxRetries=${this.maxRetries}, Throttle=${this.operationThrottle}ms`);
+    this.log.info(`   💚 Heartbeat: ${this.heartbeatInterval}ms`);
+    this.log.info(`   📡 Polling: ${this.pollInterval > 0 ? `${this.pollInterval}ms` : 'off'}`);
+    if (this.restApi) {
+      const { bindAddress, port, token } = this.restApi;
+      this.log.info(`   🌐 REST API: ${bindAddress}:${port}${token ? ' (token required)' : ''}`);
+    }
+    if (this.mqtt) {
+      const { url, topicPrefix, discovery, discoveryPrefix } = this.mqtt;
+      this.log.info(`   📨 MQTT: ${url}, topics ${topicPrefix}/#${discovery ? `, discovery ${discoveryPrefix}` : ''}`);
+    }
+
+    if (this.config.logLevel === 'debug') {
+      this.log.debug('🔍 Debug mode enabled - verbose logging active');
+    }
   }
 
   configureAccessory(accessory: PlatformAccessory) {
-    this.log.info('Loading accessory from cache:', accessory.displayName);
+    this.log.info(`Loading accessory from cache: ${accessory.displayName} (UUID: ${accessory.UUID})`);
+
+    // Enhanced cached accessory validation
+    if (!accessory.UUID) {
+      this.log.warn('❌ Cached accessory missing UUID, will be recreated');
+      return;
+    }
+
+    // Validate accessory context
+    if (!accessory.context.device) {
+      this.log.warn('⚠️  Cached accessory missing device context, may need reconfiguration');
+    } else {
+      const deviceContext = accessory.context.device;
+      this.log.debug(`🔋 Cached device context: IP=${deviceContext.ip}, Port=${deviceContext.port}`);
+
+      // Check if cached accessory still belongs to a configured device; an invalid configuration configures none
+      if (this.configValidationErrors.length === 0 && !this.devices.some(device => device.uuid === accessory.UUID)) {
+        this.log.warn(
+          `⚠️  Cached device ${deviceContext.address || `${deviceContext.ip}:${deviceContext.port}`} ` +
+          'is no longer configured and will be removed',
+        );
+      }
+    }
+
     this.accessories.push(accessory);
   }
 
   discoverDevices() {
-    const uuid = this.api.hap.uuid.generate('homebridge-hru-001');
-    const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
+    if (this.shutdownInitiated) {
+      this.log.warn('⚠️  Shutdown initiated, skipping device discovery');
+      return;
+    }
+
+    if (this.configValidationErrors.length > 0) {
+      this.log.error('❌ Skipping device discovery due to configuration errors');
+      return;
+    }
+
+    try {
+      this.log.info(`🔍 Starting device discovery for ${this.devices.length} device(s)...`);
+
+      this.devices.forEach(device => this.setupDevice(device));
+
+      // Remove cached accessories whose device has been dropped from the configuration
+      const configuredUUIDs = this.devices.map(device => device.uuid);
+      const staleAccessories = this.accessories.filter(accessory => !configuredUUIDs.includes(accessory.UUID));
+      if (staleAccessories.length > 0) {
+        staleAccessories.forEach(accessory => {
+          this.log.info(`🗑  Removing unconfigured accessory from cache: ${accessory.displayName}`);
+          this.accessories.splice(this.accessories.indexOf(accessory), 1);
+        });
+        this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, staleAccessories);
+      }
+
+      const deviceCount = this.hruAccessories.length;
+      this.log.info(`🎉 Successfully configured ${deviceCount} ATREA HRU device(s)`);
+
+      // Schedule periodic health check
+      this.scheduleHealthCheck();
+
+      // Apply weekly schedules through each accessory's operation queue
+      this.startScheduleEngine();
+
+      this.scheduleModelDetection();
+
+      if (this.restApi) {
+        this.restApiServer = new RestApiServer(this, this.restApi);
+        this.restApiServer.start();
+      }
+
+      if (this.mqtt) {
+        this.mqttBridge = new MqttBridge(this, this.mqtt);
+        this.mqttBridge.start();
+      }
+
+      // Log initial connection diagnostics after a delay
+      setTimeout(() => {
+        this.logConnectionDiagnostics();
+      }, 5000);
+
+    } catch (error) {
+      this.log.error('❌ Error during device discovery:', error);
+    }
+  }
+
+  private setupDevice(device: HRUDeviceSettings): void {
+    // Check platform limits
+    const existingCount = this.hruAccessories.length;
+    if (existingCount >= this.maxDevicesPerPlatform) {
+      this.log.error(`❌ Maximum devices per platform exceeded (${this.maxDevicesPerPlatform}). Skipping ${device.name}`);
+      return;
+    }
+
+    const existingAccessory = this.accessories.find(accessory => accessory.UUID === device.uuid);
+
+    // Set once the cached accessory is restored, otherwise a new one is created below
+    let accessoryCreated = false;
 
     if (existingAccessory) {
-      this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
-      new HRUAccessory(this, existingAccessory);
+      this.log.info(`♻️  Restoring existing accessory from cache: ${existingAccessory.displayName}`);
+
+      // Update accessory name if changed in config
+      if (existingAccessory.displayName !== device.name) {
+        this.log.info(`🏷 Updating accessory name from "${existingAccessory.displayName}" to "${device.name}"`);
+        existingAccessory.displayName = device.name;
+      }
+
+      // Create HRU accessory with enhanced error handling
+      try {
+        const hruAccessory = new HRUAccessory(this, existingAccessory, device);
+        this.hruAccessories.push(hruAccessory);
+        this.log.info(`✅ Successfully restored accessory: ${existingAccessory.displayName}`);
+        accessoryCreated = true;
+      } catch (error) {
+        this.log.error(`❌ Failed to create HRU accessory ${device.name} from cache:`, error);
+        this.log.warn('🔄 Will attempt to create new accessory');
+
+        // Remove failed accessory and try creating new one
+        const index = this.accessories.indexOf(existingAccessory);
+        if (index > -1) {
+          this.accessories.splice(index, 1);
+        }
+
+      }
+    }
+
+    if (!accessoryCreated) {
+      this.log.info(`➕ Adding new accessory: ${device.name}`);
+      const accessory = new this.api.platformAccessory(device.name, device.uuid);
+
+      // Enhanced accessory context with more metadata
+      accessory.context.device = {
+        transport: device.transport,
+        address: device.address,
+        ip: device.ip,
+        port: device.port,
+        regimeRegister: device.regimeRegister,
+        speedRegister: device.speedRegister,
+        model: device.model,
+        deviceName: device.name,
+        deviceId: device.deviceId,
+        platformId: this.platformId,
+        createdAt: Date.now(),
+        version: '2.0.0', // Version for future compatibility checks
+      };
+
+      try {
+        const hruAccessory = new HRUAccessory(this, accessory, device);
+        this.hruAccessories.push(hruAccessory);
+        this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+        this.log.info(`✅ Successfully created new accessory: ${device.name}`);
+      } catch (error) {
+        this.log.error(`❌ Failed to create new HRU accessory ${device.name}:`, error);
+      }
+    }
+  }
+
+  private startPlatformDiagnostics(): void {
+    // Run detailed diagnostics every 10 minutes
+    const diagnosticsTimeout = setInterval(() => {
+      if (!this.shutdownInitiated) {
+        this.runDetailedDiagnostics();
+      }
+    }, 600000); // 10 minutes
+
+    this.diagnosticsInterval = diagnosticsTimeout;
+    this.timeoutRegistry.add(diagnosticsTimeout);
+  }
+
+  private startScheduleEngine(): void {
+    if (!this.devices.some(device => device.schedule)) {
+      return;
+    }
+
+    // Checked more often than once a minute so a drifting timer never skips a schedule point
+    const scheduleTimeout = setInterval(() => {
+      const now = new Date();
+      const minute = Math.floor(now.getTime() / 60000);
+      if (this.shutdownInitiated || minute === this.lastScheduleMinute) {
+        return;
+      }
+      this.lastScheduleMinute = minute;
+      this.hruAccessories.forEach(accessory => accessory.runSchedule(now));
+    }, 15000);
+
+    this.scheduleInterval = scheduleTimeout;
+    this.timeoutRegistry.add(scheduleTimeout);
+    this.log.info(`📅 Schedule engine started for ${this.devices.filter(device => device.schedule).length} device(s)`);
+  }
+
+  /**
+   * Scan units without a configured model once and log the proposed configuration. The report is kept in the
+   * Homebridge storage directory, where it also marks the unit as scanned.
+   */
+  private scheduleModelDetection(): void {
+    this.hruAccessories.forEach(accessory => {
+      const device = accessory.getDeviceSettings();
+      const reportPath = join(this.api.user.storagePath(), `atrea-scan-${device.deviceId}.txt`);
+      if (!device.detectModel || existsSync(reportPath)) {
+        return;
+      }
+
+      this.log.info(`🔎 ${device.name}: No model or registers configured, the registers will be scanned to find a matching one`);
+      const detectionTimeout = setTimeout(() => {
+        this.timeoutRegistry.delete(detectionTimeout);
+        this.detectModel(accessory, reportPath).catch(error => {
+          const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+          this.log.warn(`⚠️  ${device.name}: Register scan failed, will retry on next start: ${errorMsg}`);
+        });
+      }, MODEL_DETECTION_DELAY_MS);
+      this.timeoutRegistry.add(detectionTimeout);
+    });
+  }
+
+  private async detectModel(accessory: HRUAccessory, reportPath: string): Promise<void> {
+    const device = accessory.getDeviceSettings();
+    const reader = { read: accessory.readRegisters.bind(accessory) };
+    const report = await new RegisterScanner(reader, device.address).scan();
+    if (this.shutdownInitiated) {
+      return;
+    }
+
+    writeFileSync(reportPath, formatScanReport(report));
+    if (report.proposal) {
+      const settings = JSON.stringify(report.proposal).slice(1, -1);
+      this.log.info(`🔎 ${device.name}: Unit matches model "${report.proposal.model}". Add ${settings} to the device configuration ` +
+        `(report: ${reportPath})`);
+    } else {
+      this.log.warn(`⚠️  ${device.name}: No model profile matches the unit. Please attach ${reportPath} to an issue`);
+    }
+  }
+
+  private scheduleHealthCheck(): void {
+    // Clear existing health check
+    if (this.healthCheckInterval) {
+      clearInterval(this.healthCheckInterval);
+      this.timeoutRegistry.delete(this.healthCheckInterval);
+    }
+
+    // Schedule health check every 5 minutes
+    const healthTimeout = setInterval(() => {
+      if (!this.shutdownInitiated) {
+        this.performHealthCheck();
+      }
+    }, 300000);
+
+    this.healthCheckInterval = healthTimeout;
+    this.timeoutRegistry.add(healthTimeout);
+  }
+
+  private performHealthCheck(): void {
+    try {
+      this.log.debug(`🔍 Performing platform health check for ${this.platformId}...`);
+
+      let healthyDevices = 0;
+      const totalDevices = this.hruAccessories.length;
+
+      // Enhanced health metrics
+      const diagnostics: PlatformDiagnostics = {
+        totalInstances: HRUAccessory.getInstanceCount(),
+        activeConnections: HRUAccessory.getActiveConnections(),
+        deviceHealth: [],
+        platformHealth: 0,
+        anomalies: [],
+      };
+
+      this.hruAccessories.forEach((accessory, index) => {
+        try {
+          const health = accessory.getConnectionHealth();
+          const cacheStats = accessory.getCacheStats();
+          const connectionState = accessory.getConnectionState();
+          const instanceInfo = accessory.getInstanceInfo();
+
+          const deviceDiagnostic = {
+            index: index + 1,
+            name: accessory.getDeviceSettings().name,
+            instanceId: instanceInfo.id,
+            connectionKey: instanceInfo.connectionKey,
+            successRate: health.successRate,
+            operations: health.totalOperations,
+            consecutiveFailures: health.consecutiveFailures,
+            cacheSize: cacheStats.size,
+            isConnected: connectionState.isConnected,
+            isConnecting: connectionState.isConnecting,
+            isCleaningUp: instanceInfo.isCleaningUp,
+          };
+
+          diagnostics.deviceHealth.push(deviceDiagnostic);
+
+          this.log.debug(`📊 Device ${index + 1} (${instanceInfo.id.substr(-6)}):`, {
+            successRate: `${health.successRate.toFixed(1)}%`,
+            operations: health.totalOperations,
+            consecutiveFailures: health.consecutiveFailures,
+            cacheSize: cacheStats.size,
+            connected: connectionState.isConnected,
+          });
+
+          // Criteria for healthy device
+          if (health.successRate > 50 &&
+              health.consecutiveFailures < 5 &&
+              connectionState.isConnected &&
+              !instanceInfo.isCleaningUp) {
+            healthyDevices++;
+          }
+        } catch (error) {
+          this.log.debug(`❌ Health check failed for device ${index + 1}:`, error);
+          diagnostics.anomalies.push(`Device ${index + 1} health check failed: ${error}`);
+        }
+      });
+
+      // Calculate platform health
+      if (totalDevices > 0) {
+        diagnostics.platformHealth = (healthyDevices / totalDevices) * 100;
+        this.log.debug(`💚 Platform health: ${diagnostics.platformHealth.toFixed(1)}% (${healthyDevices}/${totalDevices} devices healthy)`);
+
+        if (diagnostics.platformHealth < 50) {
+          this.log.warn(`⚠️  Platform health is low: ${diagnostics.platformHealth.toFixed(1)}%`);
+          this.consecutiveHealthCheckFailures++;
+        } else {
+          this.consecutiveHealthCheckFailures = 0;
+        }
+
+        // Check for critical health failure
+        if (this.consecutiveHealthCheckFailures >= 3) {
+          this.log.error(`🚨 Critical: Platform health has been low for ${this.consecutiveHealthCheckFailures} consecutive checks`);
+        }
+      }
+
+      // Check for anomalies
+      this.detectAnomalies(diagnostics);
+
+      // Store diagnostics for trend analysis
+      this.lastDiagnostics = diagnostics;
+
+    } catch (error) {
+      this.log.error('❌ Health check system failure:', error);
+      this.consecutiveHealthCheckFailures++;
+    }
+  }
+
+  private detectAnomalies(diagnostics: PlatformDiagnostics): void {
+    // Check instance count consistency
+    if (diagnostics.totalInstances !== this.hruAccessories.length) {
+      const anomaly = `Instance count mismatch: Platform=${this.hruAccessories.length}, Static=${diagnostics.totalInstances}`;
+      diagnostics.anomalies.push(anomaly);
+      this.log.warn(`⚠️  ${anomaly}`);
+    }
+
+    // Check for orphaned connections
+    const expectedConnections = this.hruAccessories.map(acc => {
+      const info = acc.getInstanceInfo();
+      return info.connectionKey;
+    });
+
+    const unexpectedConnections = diagnostics.activeConnections.filter(
+      conn => !expectedConnections.includes(conn),
+    );
+
+    if (unexpectedConnections.length > 0) {
+      const anomaly = `Orphaned connections detected: ${unexpectedConnections.join(', ')}`;
+      diagnostics.anomalies.push(anomaly);
+      this.log.warn(`⚠️  ${anomaly}`);
+    }
+
+    // Check for multiple connections to same device
+    const connectionCounts = new Map<string, number>();
+    diagnostics.activeConnections.forEach(conn => {
+      connectionCounts.set(conn, (connectionCounts.get(conn) || 0) + 1);
+    });
+
+    connectionCounts.forEach((count, conn) => {
+      if (count > 1) {
+        const anomaly = `Duplicate connections to ${conn}: ${count} instances`;
+        diagnostics.anomalies.push(anomaly);
+        this.log.error(`🚨 ${anomaly}`);
+      }
+    });
+
+    // Check for devices in permanent connecting state
+    diagnostics.deviceHealth.forEach(device => {
+      if (device.isConnecting && !device.isConnected) {
+        const anomaly = `Device ${device.index} stuck in connecting state`;
+        diagnostics.anomalies.push(anomaly);
+        this.log.warn(`⚠️  ${anomaly}`);
+      }
+    });
+
+    // Log anomaly summary
+    if (diagnostics.anomalies.length > 0) {
+      this.log.warn(`🔍 Detected ${diagnostics.anomalies.length} anomal${diagnostics.anomalies.length === 1 ? 'y' : 'ies'}`);
+    }
+  }
+
+  private runDetailedDiagnostics(): void {
+    if (!this.lastDiagnostics) {
+      this.log.debug('⭐️  Skipping detailed diagnostics - no baseline data available');
+      return;
+    }
+
+    const uptime = Date.now() - this.platformStartTime;
+    const uptimeHours = (uptime / (1000 * 60 * 60)).toFixed(1);
+
+    this.log.info('📊 Platform Detailed Diagnostics:');
+    this.log.info(`   ⏱️  Platform uptime: ${uptimeHours} hours`);
+    this.log.info(`   🔢 Total instances: ${this.lastDiagnostics.totalInstances}`);
+    this.log.info(`   🔗 Active connections: ${this.lastDiagnostics.activeConnections.length}`);
+    this.log.info(`   💚 Platform health: ${this.lastDiagnostics.platformHealth.toFixed(1)}%`);
+    this.log.info(`   📈 Health check failures: ${this.consecutiveHealthCheckFailures}`);
+
+    if (this.lastDiagnostics.anomalies.length > 0) {
+      this.log.warn('   ⚠️  Active anomalies:');
+      this.lastDiagnostics.anomalies.forEach(anomaly => {
+        this.log.warn(`      - ${anomaly}`);
+      });
     } else {
-      this.log.info('Adding new accessory');
-      const accessory = new this.api.platformAccessory('HRU Device', uuid);
-      new HRUAccessory(this, accessory);
-      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.log.info('   ✅ No anomalies detected');
+    }
+
+    // Device-specific diagnostics
+    this.lastDiagnostics.deviceHealth.forEach(device => {
+      this.log.info(
+        `   📱 Device ${device.index} ${device.name} (${device.instanceId.substr(-6)}): ` +
+        `${device.successRate.toFixed(1)}% success, ${device.operations} ops`,
+      );
+    });
+  }
+
+  private logConnectionDiagnostics(): void {
+    const instanceCount = HRUAccessory.getInstanceCount();
+    const activeConnections = HRUAccessory.getActiveConnections();
+
+    this.log.info('🔍 HRU Connection Diagnostics:');
+    this.log.info(`   📊 Platform devices: ${this.hruAccessories.length}`);
+    this.log.info(`   🔢 Total instances: ${instanceCount}`);
+    this.log.info(`   🔗 Active connections: ${activeConnections.length}`);
+
+    if (activeConnections.length > 0) {
+      this.log.info(`   🌐 Connection endpoints: ${activeConnections.join(', ')}`);
+    }
+
+    // Warnings for potential issues
+    if (instanceCount > this.hruAccessories.length) {
+      this.log.warn(`   ⚠️  Instance count (${instanceCount}) > platform devices (${this.hruAccessories.length})`);
+    }
+
+    if (activeConnections.length > this.hruAccessories.length) {
+      this.log.warn('   ⚠️  More connections than configured devices - check for duplicate configuration');
+    }
+
+    if (instanceCount === 0 && this.hruAccessories.length > 0) {
+      this.log.error('   🚨 No instances but platform has devices - potential initialization failure');
+    }
+  }
+
+  // **ENHANCED SHUTDOWN AND CLEANUP**
+
+  private async initiateShutdown(): Promise<void> {
+    if (this.shutdownInitiated) {
+      this.log.debug(`Platform ${this.platformId} shutdown already initiated`);
+      return this.cleanupPromise;
+    }
+
+    this.shutdownInitiated = true;
+    this.log.info(`🛑 Initiating graceful shutdown for platform ${this.platformId}...`);
+
+    this.cleanupPromise = this.performCleanup();
+    return this.cleanupPromise;
+  }
+
+  private async performCleanup(): Promise<void> {
+    if (this.cleanupHandled) {
+      this.log.debug(`Platform ${this.platformId} cleanup already handled`);
+      return;
+    }
+
+    this.cleanupHandled = true;
+    this.log.debug(`🧹 Performing platform cleanup for ${this.platformId}...`);
+
+    const cleanupStartTime = Date.now();
+
+    try {
+      // Stop all platform-level intervals
+      this.stopPlatformIntervals();
+
+      // No new API requests or MQTT commands while the units are disconnected
+      await this.restApiServer?.stop();
+      this.restApiServer = undefined;
+      await this.mqttBridge?.stop();
+      this.mqttBridge = undefined;
+
+      // Get pre-cleanup stats
+      const preCleanupStats = {
+        devices: this.hruAccessories.length,
+        instances: HRUAccessory.getInstanceCount(),
+        connections: HRUAccessory.getActiveConnections(),
+      };
+
+      this.log.info(
+        `📊 Pre-cleanup stats: ${preCleanupStats.devices} devices, ${preCleanupStats.instances} instances, ` +
+        `${preCleanupStats.connections.length} connections`,
+      );
+
+      // Enhanced cleanup with proper coordination
+      if (this.hruAccessories.length > 0) {
+        this.log.debug(`🔄 Initiating cleanup for ${this.hruAccessories.length} devices...`);
+
+        const cleanupPromises = this.hruAccessories.map(async (accessory, index) => {
+          try {
+            this.log.debug(`🧹 Cleaning up device ${index + 1}/${this.hruAccessories.length}...`);
+            await accessory.disconnect();
+            this.log.debug(`✅ Device ${index + 1} cleanup completed`);
+          } catch (error) {
+            this.log.debug(`❌ Error cleaning up device ${index + 1}:`, error);
+          }
+        });
+
+        // Wait for all individual cleanups with timeout
+        await Promise.race([
+          Promise.all(cleanupPromises),
+          new Promise(resolve => setTimeout(resolve, 12000)), // 12s timeout
+        ]);
+
+        this.log.debug('✅ All device cleanups initiated');
+      }
+
+      // Global cleanup of all instances (safety net)
+      this.log.debug('🧹 Performing global instance cleanup...');
+
+      // Don't let the global cleanup hold up the shutdown
+      await Promise.race([
+        HRUAccessory.cleanupAllInstances(),
+        new Promise(resolve => setTimeout(resolve, 8000)), // 8s timeout
+      ]);
+
+      // Clear accessories array
+      this.hruAccessories.length = 0;
+
+      // Get post-cleanup stats
+      const postCleanupStats = {
+        instances: HRUAccessory.getInstanceCount(),
+        connections: HRUAccessory.getActiveConnections(),
+      };
+
+      const cleanupTime = Date.now() - cleanupStartTime;
+
+      this.log.info(`✅ Platform ${this.platformId} cleanup completed in ${cleanupTime}ms`);
+      this.log.info(`📊 Post-cleanup stats: ${postCleanupStats.instances} instances, ${postCleanupStats.connections.length} connections`);
+
+      // Warn about potential resource leaks
+      if (postCleanupStats.instances > 0 || postCleanupStats.connections.length > 0) {
+        this.log.warn('⚠️  Potential resource leak detected:');
+        this.log.warn(`   - Remaining instances: ${postCleanupStats.instances}`);
+        this.log.warn(`   - Remaining connections: ${postCleanupStats.connections.length}`);
+
+        if (postCleanupStats.connections.length > 0) {
+          this.log.warn(`   - Connection keys: ${postCleanupStats.connections.join(', ')}`);
+        }
+      } else {
+        this.log.info('✅ Clean shutdown - no resource leaks detected');
+      }
+
+    } catch (error) {
+      this.log.error(`❌ Error during platform cleanup for ${this.platformId}:`, error);
+    }
+  }
+
+  private stopPlatformIntervals(): void {
+    // Clear health check interval
+    if (this.healthCheckInterval) {
+      clearInterval(this.healthCheckInterval);
+      this.timeoutRegistry.delete(this.healthCheckInterval);
+      this.healthCheckInterval = undefined;
+    }
+
+    // Clear diagnostics interval
+    if (this.diagnosticsInterval) {
+      clearInterval(this.diagnosticsInterval);
+      this.timeoutRegistry.delete(this.diagnosticsInterval);
+      this.diagnosticsInterval = undefined;
+    }
+
+    // Clear schedule interval
+    if (this.scheduleInterval) {
+      clearInterval(this.scheduleInterval);
+      this.timeoutRegistry.delete(this.scheduleInterval);
+      this.scheduleInterval = undefined;
+    }
+
+    // Clear all tracked timeouts
+    this.timeoutRegistry.forEach(timeout => clearTimeout(timeout));
+    this.timeoutRegistry.clear();
+  }
+
+  // **PUBLIC API METHODS**
+
+  /**
+   * Get comprehensive platform statistics
+   */
+  public getPlatformStats(): {
+    platformId: string;
+    deviceCount: number;
+    totalOperations: number;
+    averageSuccessRate: number;
+    uptime: number;
+    instanceCount: number;
+    activeConnections: number;
+    platformHealth: number;
+    anomalyCount: number;
+    devices: Array<{
+      name: string;
+      address: string;
+      successRate: number;
+      operations: number;
+      consecutiveFailures: number;
+      lastSuccessfulOperation: number;
+      cacheSize: number;
+      isConnected: boolean;
+      activeFaults: string[];
+      lastPoll: number;
+    }>;
+    } {
+    const stats = this.hruAccessories.map(accessory => accessory.getConnectionHealth());
+    const uptime = Date.now() - this.platformStartTime;
+    const activeConnections = HRUAccessory.getActiveConnections();
+
+    return {
+      platformId: this.platformId,
+      deviceCount: this.hruAccessories.length,
+      totalOperations: stats.reduce((sum, stat) => sum + stat.totalOperations, 0),
+      averageSuccessRate: stats.length > 0
+        ? stats.reduce((sum, stat) => sum + stat.successRate, 0) / stats.length
+        : 0,
+      uptime: uptime,
+      instanceCount: HRUAccessory.getInstanceCount(),
+      activeConnections: activeConnections.length,
+      platformHealth: this.lastDiagnostics?.platformHealth || 0,
+      anomalyCount: this.lastDiagnostics?.anomalies.length || 0,
+      devices: this.hruAccessories.map((accessory, index) => ({
+        name: accessory.getDeviceSettings().name,
+        address: accessory.getInstanceInfo().connectionKey,
+        successRate: stats[index].successRate,
+        operations: stats[index].totalOperations,
+        consecutiveFailures: stats[index].consecutiveFailures,
+        lastSuccessfulOperation: stats[index].lastSuccessfulOperation,
+        cacheSize: accessory.getCacheStats().size,
+        isConnected: accessory.getConnectionState().isConnected,
+        activeFaults: accessory.getActiveFaults().map(fault => `${fault.severity}: ${fault.description}`),
+        lastPoll: accessory.getSnapshot().timestamp,
+      })),
+    };
+  }
+
+  public getAccessories(): HRUAccessory[] {
+    return [...this.hruAccessories];
+  }
+
+  /**
+   * Accessory of a unit by its device ID or its 1-based position in the device list
+   */
+  public findAccessory(id: string): HRUAccessory | undefined {
+    const accessory = this.hruAccessories.find(candidate => candidate.getDeviceSettings().deviceId === id);
+    if (accessory || !/^\d+$/.test(id)) {
+      return accessory;
+    }
+    return this.hruAccessories[Number(id) - 1];
+  }
+
+  /**
+   * Force reconnection of all devices
+   */
+  public async forceReconnectAll(): Promise<void> {
+    if (this.shutdownInitiated) {
+      throw new Error('Cannot reconnect during shutdown');
     }
+
+    this.log.info(`🔄 Force reconnecting all devices for platform ${this.platformId}...`);
+
+    const reconnectPromises = this.hruAccessories.map(async (accessory, index) => {
+      try {
+        this.log.debug(`🔄 Force reconnecting device ${index + 1}...`);
+        await accessory.disconnect();
+
+        // Staggered reconnection to avoid overwhelming the device
+        await new Promise(resolve => setTimeout(resolve, 2000 * index));
+
+        this.log.debug(`✅ Device ${index + 1} reconnection initiated`);
+      } catch (error) {
+        this.log.error(`❌ Error force reconnecting device ${index + 1}:`, error);
+      }
+    });
+
+    await Promise.all(reconnectPromises);
+    this.log.info('✅ Force reconnection of all devices completed');
+  }
+
+  /**
+   * Get current platform diagnostics
+   */
+  public getCurrentDiagnostics(): PlatformDiagnostics | null {
+    return this.lastDiagnostics || null;
+  }
+
+  /**
+   * Force immediate health check
+   */
+  public forceHealthCheck(): void {
+    if (!this.shutdownInitiated) {
+      this.log.info(`🔍 Force health check requested for platform ${this.platformId}`);
+      this.performHealthCheck();
+    }
+  }
+
+  /**
+   * Get platform configuration summary
+   */
+  public getConfigSummary(): Record<string, unknown> {
+    return {
+      platformId: this.platformId,
+      devices: this.devices.map(device => ({
+        name: device.name,
+        model: device.model,
+        simulate: device.simulate,
+        transport: device.transport,
+        address: device.address,
+        unitId: device.unitId,
+        regimeRegister: device.regimeRegister,
+        speedRegister: device.speedRegister,
+      })),
+      connectionTimeout: this.connectionTimeout,
+      operationThrottle: this.operationThrottle,
+      maxRetries: this.maxRetries,
+      heartbeatInterval: this.heartbeatInterval,
+      cacheTimeout: this.cacheTimeout,
+      pollInterval: this.pollInterval,
+      restApi: this.restApi ? { port: this.restApi.port, bindAddress: this.restApi.bindAddress } : null,
+      mqtt: this.mqtt ? { url: this.mqtt.url, topicPrefix: this.mqtt.topicPrefix, discovery: this.mqtt.discovery } : null,
+      configValidationErrors: this.configValidationErrors.length,
+      shutdownInitiated: this.shutdownInitiated,
+    };
   }
 }
\ No newline at end of file
@@ -1,125 +1,2452 @@
-import { Service, PlatformAccessory, CharacteristicValue, CharacteristicSetCallback, CharacteristicGetCallback } from 'homebridge';
-import { HRUPlatform } from './platform';
-import ModbusRTU from 'modbus-serial';
+import { Service, PlatformAccessory, Characteristic, CharacteristicValue, HapStatusError, WithUUID } from 'homebridge';
+import {
+  HRUPlatform, HRUDeviceSettings, AnalogSensorSettings, CarbonDioxideSensorSettings, OverrideMode, OverrideSettings, SpeedUnit,
+} from './platform';
+import { RegisterBlock, planBlockReads } from './polling';
+import { SchedulePoint, findCurrentPoint, findDuePoint } from './schedule';
+import { describeSpeed, percentToSpeed, speedLevels, speedToPercent } from './speedRange';
+import { SimulatedUnit } from './simulator';
+import {
+  ConnectionSettings, MAX_BUSY_RETRIES, ModbusClient, OperationQueue, SLAVE_DEVICE_BUSY, closeModbusClient, isDeviceBusy,
+  modbusExceptionCode, openModbusClient, retryWhileBusy,
+} from './modbusTransport';
+import {
+  BYPASS_MODES, BypassMode, DatapointName, HEATING_COOLING_STATES, REGIMES, RegimeName, RegisterType, decodeFaults,
+  decodeRegisterValue, encodeRegisterValue, getModelProfile, getRegimeName,
+} from './profiles';
+
+// Operations are spaced at least this far apart, whatever the operation throttle
+const MIN_OPERATION_INTERVAL = 2000;
+
+interface CachedValue<T> {
+  value: T;
+  timestamp: number;
+  ttl: number;
+}
+
+interface ConnectionHealth {
+  lastSuccessfulOperation: number;
+  consecutiveFailures: number;
+  totalOperations: number;
+  successRate: number;
+}
+
+interface ActiveFault {
+  severity: 'alarm' | 'warning';
+  id: string;
+  description: string;
+}
+
+/**
+ * Running override, kept in the accessory context so it survives a restart
+ */
+interface OverrideState {
+  mode: OverrideMode;
+  endsAt: number;
+  previousRegime: number;
+  previousSpeed: number;
+}
+
+/**
+ * Unit state as reported by the REST API and published over MQTT
+ */
+export interface DeviceStatus {
+  id: string;
+  name: string;
+  model: string;
+  address: string;
+  connected: boolean;
+  regime: RegimeName | null;
+  regimeValue: number;
+  on: boolean;
+  // Speed register value in its own unit, and the same as the HomeKit percent
+  speed: number;
+  speedUnit: SpeedUnit;
+  speedPercent: number;
+  override: { mode: OverrideMode; endsAt: number } | null;
+  activeFaults: string[];
+  values: { [K in DatapointName]?: number };
+  lastPoll: number;
+}
+
+interface ConnectionState {
+  isConnected: boolean;
+  isConnecting: boolean;
+  isDisconnecting: boolean;
+  connectionId: string;
+  lastConnectionAttempt: number;
+}
 
 export class HRUAccessory {
-  private service: Service;
-  private client: ModbusRTU;
-  private isConnected: boolean = false;
+  private service!: Service;
+  private powerCharacteristic!: WithUUID<new () => Characteristic>;
+  private targetStateCharacteristic?: WithUUID<new () => Characteristic>;
+  private currentStateCharacteristic?: WithUUID<new () => Characteristic>;
+  private regimeServices = new Map<RegimeName, Service>();
+  private temperatureServices = new Map<DatapointName, Service>();
+  private filterService?: Service;
+  private carbonDioxideService?: Service;
+  private airQualityService?: Service;
+  private humidityService?: Service;
+  private bypassStateService?: Service;
+  private bypassServices = new Map<BypassMode, Service>();
+  private climateService?: Service;
+  private overrideServices = new Map<OverrideMode, Service>();
+  private overrideTimeout?: NodeJS.Timeout;
+  // Faults seen on the last read, keyed by severity and id, so raises and clears are logged once
+  private activeFaults = new Map<string, ActiveFault>();
+  private client: ModbusClient | null = null;
+  // Kept across reconnects so the simulated unit's state survives connection failures
+  private readonly simulator?: SimulatedUnit;
+
+  // CRITICAL: Instance tracking to prevent duplicates
+  private static instanceCount: number = 0;
+  private static activeConnections = new Map<string, HRUAccessory>();
+  private readonly instanceId: string;
+  private readonly connectionKey: string;
+
+  // Enhanced connection state management
+  private connectionState: ConnectionState = {
+    isConnected: false,
+    isConnecting: false,
+    isDisconnecting: false,
+    connectionId: '',
+    lastConnectionAttempt: 0,
+  };
+
+  // Synchronization primitives
+  private readonly connectionMutex = new AsyncMutex();
+  private readonly operationMutex = new AsyncMutex();
+  private connectionPromise?: Promise<void>;
+  private disconnectionPromise?: Promise<void>;
+
+  // Timeouts and intervals tracking
+  private timeoutRegistry = new Set<NodeJS.Timeout>();
+  private reconnectTimeout?: NodeJS.Timeout;
+  private heartbeatTimeout?: NodeJS.Timeout;
+  private pollTimeout?: NodeJS.Timeout;
+
+  // Operation management
+  private readonly queue: OperationQueue;
+
+  // Configuration with stricter defaults
+  private readonly operationThrottle: number;
+  private readonly connectionRetryBaseDelay: number = 5000;
+  private readonly maxRetries: number;
+  private readonly heartbeatInterval: number;
+  private readonly cacheTimeout: number;
+  private readonly connectionTimeout: number;
+  private readonly pollInterval: number;
+  private readonly operationTimeout: number = 20000;
+
+  // Busy answers in a row, and in total
+  private deviceBusyCount = 0;
+  // Never reset, so busy rates can be graphed
+  private deviceBusyTotal = 0;
+
+  // State management
+  private connectionRetryCount: number = 0;
+  private cache = new Map<string, CachedValue<number>>();
+  private connectionHealth: ConnectionHealth = {
+    lastSuccessfulOperation: 0,
+    consecutiveFailures: 0,
+    totalOperations: 0,
+    successRate: 100,
+  };
+
+  // Batch operations
+  private pendingReads = new Map<string, Promise<number>>();
+  private batchTimeout?: NodeJS.Timeout;
+
+  // Background polling: decoded values from the last poll, which HomeKit gets are answered from
+  private readonly pollBlocks: RegisterBlock[];
+  private snapshot = new Map<DatapointName, number>();
+  // Told when polled or written values change, e.g. by the MQTT bridge to publish the new state
+  private stateListeners: Array<() => void> = [];
+  private snapshotTime: number = 0;
+
+  // Cleanup state
+  private isCleaningUp: boolean = false;
+  private cleanupPromise?: Promise<void>;
 
   constructor(
     private readonly platform: HRUPlatform,
     private readonly accessory: PlatformAccessory,
+    private readonly device: HRUDeviceSettings,
   ) {
-    this.client = new ModbusRTU();
-    this.connectModbusClient().catch(error => {
-      this.platform.log.error('Failed to establish initial Modbus connection:', error);
-    });
+    // Generate unique instance and connection identifiers
+    this.instanceId = `hru-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    this.connectionKey = this.device.address;
+    if (this.device.simulate) {
+      this.simulator = new SimulatedUnit(this.device.registers, { maxSpeed: this.device.speedRange.max });
+    }
 
-    this.accessory.getService(this.platform.Service.AccessoryInformation)!
-      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'HRU Manufacturer')
-      .setCharacteristic(this.platform.Characteristic.Model, 'HRU Model')
-      .setCharacteristic(this.platform.Characteristic.SerialNumber, 'HRU Serial Number');
+    // CRITICAL: Check for existing connections to same device
+    this.checkForDuplicateConnections();
+
+    // Timings as parsed and clamped by the platform's configuration schema
+    this.operationThrottle = this.platform.operationThrottle;
+    this.maxRetries = this.platform.maxRetries;
+    this.heartbeatInterval = this.platform.heartbeatInterval;
+    this.cacheTimeout = this.platform.cacheTimeout;
+    this.connectionTimeout = this.platform.connectionTimeout;
+    this.pollInterval = this.platform.pollInterval;
+    this.queue = new OperationQueue(Math.max(this.operationThrottle, MIN_OPERATION_INTERVAL));
+    this.pollBlocks = planBlockReads(this.device.registers, this.polledDatapoints);
+
+    // Register this instance
+    HRUAccessory.instanceCount++;
+    HRUAccessory.activeConnections.set(this.connectionKey, this);
+
+    this.platform.log.info(
+      `Creating HRU instance ${this.instanceId} for ${this.connectionKey} (total instances: ${HRUAccessory.instanceCount})`,
+    );
 
-    this.service = this.accessory.getService(this.platform.Service.Fan) || this.accessory.addService(this.platform.Service.Fan);
+    this.initializeAccessory();
+    this.initializeConnection();
+    this.resumeOverride();
+  }
+
+  private checkForDuplicateConnections(): void {
+    const existing = HRUAccessory.activeConnections.get(this.connectionKey);
+    if (existing && existing !== this) {
+      this.platform.log.error(`CRITICAL: Duplicate connection detected for ${this.connectionKey}! Cleaning up existing instance.`);
+      existing.forceCleanup();
+      HRUAccessory.activeConnections.delete(this.connectionKey);
+    }
+  }
 
-    this.service.setCharacteristic(this.platform.Characteristic.Name, 'HRU Fan');
+  private initializeAccessory(): void {
+    // Accessory information
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'ATREA')
+      .setCharacteristic(this.platform.Characteristic.Model, getModelProfile(this.device.model).name)
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, `HRU-${this.serialNumberBase}-${this.instanceId.substr(-6)}`);
 
-    this.service.getCharacteristic(this.platform.Characteristic.On)
-      .on('get', this.handleOnGetOn.bind(this))
-      .on('set', this.handleOnSetOn.bind(this));
+    this.initializeMainService();
 
     this.service.getCharacteristic(this.platform.Characteristic.RotationSpeed)
-      .on('get', this.handleOnGetSpeed.bind(this))
-      .on('set', this.handleOnSetSpeed.bind(this));
+      .setProps({ minValue: 0, maxValue: 100, minStep: this.speedMinStep })
+      .onGet(this.handleOnGetSpeed.bind(this))
+      .onSet(this.handleOnSetSpeed.bind(this));
+
+    this.initializeStatusFault();
+
+    this.initializeTemperatureSensors();
+    this.initializeRegimeSwitches();
+    this.initializeFilterMaintenance();
+    this.initializeAirSensors();
+    this.initializeHumiditySensor();
+    this.initializeBypass();
+    this.initializeClimate();
+    this.initializeOverrides();
+    this.initializeSchedule();
   }
 
-  private async connectModbusClient(): Promise<void> {
-    try {
-      this.platform.log.debug(`Attempting to connect to Modbus device at ${this.platform.ip}:${this.platform.port}`);
-      await this.client.connectTCP(this.platform.ip, { port: this.platform.port, timeout: 10000 });
-      this.isConnected = true;
-      this.platform.log.info(`Successfully connected to Modbus device at ${this.platform.ip}:${this.platform.port}`);
-    } catch (error) {
-      this.isConnected = false;
-      if (error instanceof Error) {
-        this.platform.log.error(`Failed to connect to Modbus device: ${error.message}`);
-      } else {
-        this.platform.log.error('Failed to connect to Modbus device with an unknown error');
-      }
-      throw error;
+  private initializeMainService(): void {
+    const { Service: ServiceType, Characteristic: CharacteristicType } = this.platform;
+    const serviceTypes = {
+      fan: ServiceType.Fan,
+      fanv2: ServiceType.Fanv2,
+      airPurifier: ServiceType.AirPurifier,
+    };
+    const serviceType = serviceTypes[this.device.serviceType];
+
+    // Drop the main service of a previously configured presentation
+    Object.values(serviceTypes)
+      .filter(type => type !== serviceType)
+      .forEach(type => {
+        const stale = this.accessory.getService(type);
+        if (stale) {
+          this.platform.log.info(`${this.instanceId}: Removing ${stale.displayName} service after service type change`);
+          this.accessory.removeService(stale);
+        }
+      });
+
+    this.service = this.accessory.getService(serviceType) || this.accessory.addService(serviceType);
+    this.service.setCharacteristic(CharacteristicType.Name, this.device.name);
+
+    if (this.device.serviceType === 'fan') {
+      this.powerCharacteristic = CharacteristicType.On;
+    } else {
+      this.powerCharacteristic = CharacteristicType.Active;
+      this.targetStateCharacteristic = this.device.serviceType === 'fanv2'
+        ? CharacteristicType.TargetFanState
+        : CharacteristicType.TargetAirPurifierState;
+      this.currentStateCharacteristic = this.device.serviceType === 'fanv2'
+        ? CharacteristicType.CurrentFanState
+        : CharacteristicType.CurrentAirPurifierState;
+
+      this.service.getCharacteristic(this.targetStateCharacteristic)
+        .onGet(this.handleGetTargetState.bind(this))
+        .onSet(this.handleSetTargetState.bind(this));
+
+      this.service.getCharacteristic(this.currentStateCharacteristic)
+        .onGet(this.handleGetCurrentState.bind(this));
     }
+
+    // Characteristics with optimized handlers
+    this.service.getCharacteristic(this.powerCharacteristic)
+      .onGet(this.handleOnGetOn.bind(this))
+      .onSet(this.handleOnSetOn.bind(this));
   }
 
-  private async ensureConnection() {
-    if (!this.isConnected) {
-      await this.connectModbusClient();
+  private initializeStatusFault(): void {
+    const { StatusFault } = this.platform.Characteristic;
+
+    if (!this.hasFaultRegisters) {
+      if (this.service.testCharacteristic(StatusFault)) {
+        this.service.removeCharacteristic(this.service.getCharacteristic(StatusFault));
+      }
+      return;
     }
+
+    this.service.getCharacteristic(StatusFault)
+      .onGet(this.handleGetStatusFault.bind(this));
   }
 
-  handleOnGetOn(callback: CharacteristicGetCallback) {
-    this.ensureConnection()
-      .then(() => this.client.readHoldingRegisters(this.platform.regimeRegister, 1))
-      .then(response => {
-        const currentValue = response.data[0] === 0 ? 0 : 1;
-        this.platform.log.debug('State is:', currentValue);
-        callback(null, currentValue);
-      })
-      .catch(error => {
-        this.platform.log.error('Error getting On state:', error);
-        callback(error);
+  /**
+   * Remove services that were disabled in the configuration since the accessory was cached
+   */
+  private removeStaleServices(serviceUUID: string, keepSubtypes: string[], subtypePrefix: string = ''): void {
+    this.accessory.services
+      .filter(service => service.UUID === serviceUUID &&
+        (service.subtype || '').startsWith(subtypePrefix) &&
+        !keepSubtypes.includes(service.subtype || ''))
+      .forEach(service => {
+        this.platform.log.info(`${this.instanceId}: Removing disabled service ${service.displayName}`);
+        this.accessory.removeService(service);
       });
   }
 
-  handleOnSetOn(value: CharacteristicValue, callback: CharacteristicSetCallback) {
-    this.ensureConnection()
-      .then(() => {
-        const setValue = (value as number) >= 1 ? 2 : 0;
-        return this.client.writeRegister(this.platform.regimeRegister, setValue);
-      })
-      .then(() => {
-        this.platform.log.debug(`Set On state to: ${value}`);
-        callback(null);
-      })
-      .catch(error => {
-        this.platform.log.error('Error setting On state:', error);
-        callback(error);
+  private initializeTemperatureSensors(): void {
+    this.removeStaleServices(
+      this.platform.Service.TemperatureSensor.UUID,
+      this.device.temperatureSensors.map(sensor => sensor.probe),
+    );
+
+    this.device.temperatureSensors.forEach(sensor => {
+      const service = this.accessory.getServiceById(this.platform.Service.TemperatureSensor, sensor.probe) ||
+                      this.accessory.addService(this.platform.Service.TemperatureSensor, sensor.name, sensor.probe);
+      service.setCharacteristic(this.platform.Characteristic.Name, sensor.name);
+
+      service.getCharacteristic(this.platform.Characteristic.CurrentTemperature)
+        .setProps({ minValue: -50, maxValue: 100, minStep: 0.1 })
+        .onGet(() => this.handleGetTemperature(sensor.datapoint));
+
+      this.temperatureServices.set(sensor.datapoint, service);
+    });
+  }
+
+  private initializeRegimeSwitches(): void {
+    const subtypeOf = (regime: RegimeName) => `regime-${regime}`;
+
+    this.removeStaleServices(
+      this.platform.Service.Switch.UUID,
+      this.device.regimeSwitches.map(subtypeOf),
+      'regime-',
+    );
+
+    this.device.regimeSwitches.forEach(regime => {
+      const name = REGIMES[regime].name;
+      const service = this.accessory.getServiceById(this.platform.Service.Switch, subtypeOf(regime)) ||
+                      this.accessory.addService(this.platform.Service.Switch, name, subtypeOf(regime));
+      service.setCharacteristic(this.platform.Characteristic.Name, name);
+
+      service.getCharacteristic(this.platform.Characteristic.On)
+        .onGet(() => this.handleGetRegimeSwitch(regime))
+        .onSet(value => this.handleSetRegimeSwitch(regime, value));
+
+      this.regimeServices.set(regime, service);
+    });
+  }
+
+  private initializeFilterMaintenance(): void {
+    const settings = this.device.filterMaintenance;
+    const existing = this.accessory.getService(this.platform.Service.FilterMaintenance);
+
+    if (!settings) {
+      if (existing) {
+        this.platform.log.info(`${this.instanceId}: Removing disabled service ${existing.displayName}`);
+        this.service.removeLinkedService(existing);
+        this.accessory.removeService(existing);
+      }
+      return;
+    }
+
+    const service = existing || this.accessory.addService(this.platform.Service.FilterMaintenance, settings.name);
+    service.setCharacteristic(this.platform.Characteristic.Name, settings.name);
+    this.service.addLinkedService(service);
+
+    service.getCharacteristic(this.platform.Characteristic.FilterChangeIndication)
+      .onGet(this.handleGetFilterChange.bind(this));
+
+    if (this.device.registers.filterRemainingDays) {
+      service.getCharacteristic(this.platform.Characteristic.FilterLifeLevel)
+        .onGet(this.handleGetFilterLife.bind(this));
+    }
+
+    if (this.device.registers.filterReset) {
+      service.getCharacteristic(this.platform.Characteristic.ResetFilterIndication)
+        .onSet(this.handleResetFilter.bind(this));
+    }
+
+    this.filterService = service;
+  }
+
+  private initializeAirSensors(): void {
+    const { Service: ServiceType, Characteristic: CharacteristicType } = this.platform;
+
+    const co2Settings = this.device.carbonDioxideSensor;
+    const co2Service = this.accessory.getService(ServiceType.CarbonDioxideSensor);
+    if (!co2Settings) {
+      if (co2Service) {
+        this.platform.log.info(`${this.instanceId}: Removing disabled service ${co2Service.displayName}`);
+        this.accessory.removeService(co2Service);
+      }
+    } else {
+      const service = co2Service || this.accessory.addService(ServiceType.CarbonDioxideSensor, co2Settings.name);
+      service.setCharacteristic(CharacteristicType.Name, co2Settings.name);
+
+      service.getCharacteristic(CharacteristicType.CarbonDioxideDetected)
+        .onGet(() => this.serveGet(
+          async () => this.carbonDioxideDetectedFor(await this.readAnalogSensor(co2Settings), co2Settings),
+        ));
+
+      service.getCharacteristic(CharacteristicType.CarbonDioxideLevel)
+        .onGet(() => this.serveGet(() => this.readAnalogSensor(co2Settings)));
+
+      this.carbonDioxideService = service;
+    }
+
+    const airQualitySettings = this.device.airQualitySensor;
+    const airQualityService = this.accessory.getService(ServiceType.AirQualitySensor);
+    if (!airQualitySettings) {
+      if (airQualityService) {
+        this.platform.log.info(`${this.instanceId}: Removing disabled service ${airQualityService.displayName}`);
+        this.accessory.removeService(airQualityService);
+      }
+    } else {
+      const service = airQualityService || this.accessory.addService(ServiceType.AirQualitySensor, airQualitySettings.name);
+      service.setCharacteristic(CharacteristicType.Name, airQualitySettings.name);
+
+      service.getCharacteristic(CharacteristicType.AirQuality)
+        .onGet(() => this.serveGet(
+          async () => this.airQualityFor(await this.readAnalogSensor(airQualitySettings), airQualitySettings.thresholds),
+        ));
+
+      if (airQualitySettings.pollutant === 'voc') {
+        service.getCharacteristic(CharacteristicType.VOCDensity)
+          .setProps({ maxValue: 5000 })
+          .onGet(() => this.serveGet(() => this.readAnalogSensor(airQualitySettings)));
+      }
+
+      this.airQualityService = service;
+    }
+  }
+
+  private initializeHumiditySensor(): void {
+    const settings = this.device.humiditySensor;
+    const existing = this.accessory.getService(this.platform.Service.HumiditySensor);
+
+    if (!settings) {
+      if (existing) {
+        this.platform.log.info(`${this.instanceId}: Removing disabled service ${existing.displayName}`);
+        this.accessory.removeService(existing);
+      }
+      return;
+    }
+
+    const service = existing || this.accessory.addService(this.platform.Service.HumiditySensor, settings.name);
+    service.setCharacteristic(this.platform.Characteristic.Name, settings.name);
+
+    service.getCharacteristic(this.platform.Characteristic.CurrentRelativeHumidity)
+      .onGet(() => this.serveGet(async () => {
+        const humidity = this.humidityFor(await this.currentValue('humidity'));
+        this.platform.log.debug(`${this.instanceId}: Humidity: ${humidity}%`);
+        return humidity;
+      }));
+
+    this.humidityService = service;
+  }
+
+  private initializeBypass(): void {
+    const settings = this.device.bypass;
+    const controlModes: BypassMode[] = settings?.control ? ['open', 'closed'] : [];
+    const subtypeOf = (mode: BypassMode) => `bypass-${mode}`;
+
+    this.removeStaleServices(this.platform.Service.ContactSensor.UUID, settings ? ['bypass'] : [], 'bypass');
+    this.removeStaleServices(this.platform.Service.Switch.UUID, controlModes.map(subtypeOf), 'bypass-');
+
+    if (!settings) {
+      return;
+    }
+
+    const service = this.accessory.getServiceById(this.platform.Service.ContactSensor, 'bypass') ||
+                    this.accessory.addService(this.platform.Service.ContactSensor, settings.name, 'bypass');
+    service.setCharacteristic(this.platform.Characteristic.Name, settings.name);
+
+    service.getCharacteristic(this.platform.Characteristic.ContactSensorState)
+      .onGet(this.handleGetBypassState.bind(this));
+    this.bypassStateService = service;
+
+    // Forcing the damper open or closed; with both switches off the unit controls the bypass itself
+    controlModes.forEach(mode => {
+      const name = `${settings.name} ${BYPASS_MODES[mode].name}`;
+      const modeService = this.accessory.getServiceById(this.platform.Service.Switch, subtypeOf(mode)) ||
+                          this.accessory.addService(this.platform.Service.Switch, name, subtypeOf(mode));
+      modeService.setCharacteristic(this.platform.Characteristic.Name, name);
+
+      modeService.getCharacteristic(this.platform.Characteristic.On)
+        .onGet(() => this.handleGetBypassSwitch(mode))
+        .onSet(value => this.handleSetBypassSwitch(mode, value));
+
+      this.bypassServices.set(mode, modeService);
+    });
+  }
+
+  private initializeClimate(): void {
+    const settings = this.device.climate;
+    const { Service: ServiceType, Characteristic: CharacteristicType } = this.platform;
+    const serviceTypes = {
+      heaterCooler: ServiceType.HeaterCooler,
+      thermostat: ServiceType.Thermostat,
+    };
+    const serviceType = settings ? serviceTypes[settings.serviceType] : undefined;
+
+    // Drop the service of a disabled or previously configured presentation
+    Object.values(serviceTypes)
+      .filter(type => type !== serviceType)
+      .forEach(type => {
+        const stale = this.accessory.getService(type);
+        if (stale) {
+          this.platform.log.info(`${this.instanceId}: Removing disabled service ${stale.displayName}`);
+          this.accessory.removeService(stale);
+        }
       });
+
+    if (!settings || !serviceType) {
+      return;
+    }
+
+    const service = this.accessory.getService(serviceType) || this.accessory.addService(serviceType, settings.name);
+    service.setCharacteristic(CharacteristicType.Name, settings.name);
+    const readOnly = [this.platform.api.hap.Perms.PAIRED_READ, this.platform.api.hap.Perms.NOTIFY];
+
+    service.getCharacteristic(CharacteristicType.CurrentTemperature)
+      .setProps({ minValue: -50, maxValue: 100, minStep: 0.1 })
+      .onGet(() => this.handleGetTemperature(settings.currentDatapoint));
+
+    // Only the setpoint is written: the unit picks heating or cooling on its own, and switching it off
+    // belongs to the fan, so the active state and target mode just report what the unit does
+    if (settings.serviceType === 'heaterCooler') {
+      service.getCharacteristic(CharacteristicType.Active)
+        .setProps({ perms: readOnly })
+        .onGet(this.handleOnGetOn.bind(this));
+
+      service.getCharacteristic(CharacteristicType.CurrentHeaterCoolerState)
+        .onGet(this.handleGetClimateState.bind(this));
+
+      service.getCharacteristic(CharacteristicType.TargetHeaterCoolerState)
+        .setProps({ perms: readOnly })
+        .onGet(this.handleGetClimateTarget.bind(this));
+
+      this.setpointCharacteristic(service, CharacteristicType.HeatingThresholdTemperature)
+        .onGet(this.handleGetTemperatureSetpoint.bind(this))
+        .onSet(this.handleSetTemperatureSetpoint.bind(this));
+    } else {
+      const { TemperatureDisplayUnits } = CharacteristicType;
+
+      service.getCharacteristic(CharacteristicType.CurrentHeatingCoolingState)
+        .onGet(this.handleGetClimateState.bind(this));
+
+      service.getCharacteristic(CharacteristicType.TargetHeatingCoolingState)
+        .setProps({ perms: readOnly })
+        .onGet(this.handleGetClimateTarget.bind(this));
+
+      this.setpointCharacteristic(service, CharacteristicType.TargetTemperature)
+        .onGet(this.handleGetTemperatureSetpoint.bind(this))
+        .onSet(this.handleSetTemperatureSetpoint.bind(this));
+
+      service.getCharacteristic(TemperatureDisplayUnits)
+        .setProps({ validValues: [TemperatureDisplayUnits.CELSIUS] })
+        .onGet(() => TemperatureDisplayUnits.CELSIUS)
+        .onSet(() => undefined);
+    }
+
+    this.climateService = service;
+    this.configureClimateModes();
+  }
+
+  // A new characteristic starts at HomeKit's default, which may lie below the configured range
+  private setpointCharacteristic(service: Service, type: WithUUID<new () => Characteristic>): Characteristic {
+    const characteristic = service.getCharacteristic(type);
+    characteristic.updateValue(this.setpointFor(characteristic.value as number));
+    const { minTemperature, maxTemperature } = this.device.climate!;
+    return characteristic.setProps({ minValue: minTemperature, maxValue: maxTemperature, minStep: 0.5 });
+  }
+
+  // Kept in the accessory context once the unit has reported cooling, so the modes are right from the start
+  private get hasCooling(): boolean {
+    return this.accessory.context.hasCooling === true;
   }
 
-  handleOnGetSpeed(callback: CharacteristicGetCallback) {
-    this.ensureConnection()
-      .then(() => this.client.readHoldingRegisters(this.platform.speedRegister, 1))
-      .then(response => {
-        const currentValue = response.data[0];
-        this.platform.log.debug('Speed is:', currentValue);
-        callback(null, currentValue);
-      })
-      .catch(error => {
-        this.platform.log.error('Error getting Speed:', error);
-        callback(error);
+  /**
+   * Target modes HomeKit may show: heating only, and cooling and Auto as well for a unit with a cooler battery,
+   * whose single setpoint then also serves as the cooling threshold
+   */
+  private configureClimateModes(): void {
+    const service = this.climateService!;
+    const { Characteristic: CharacteristicType } = this.platform;
+
+    if (this.device.climate!.serviceType === 'heaterCooler') {
+      const { TargetHeaterCoolerState } = CharacteristicType;
+      // Heating is valid before and after the change, so the value never falls outside the valid values
+      service.getCharacteristic(TargetHeaterCoolerState)
+        .updateValue(TargetHeaterCoolerState.HEAT)
+        .setProps({
+          validValues: this.hasCooling
+            ? [TargetHeaterCoolerState.AUTO, TargetHeaterCoolerState.HEAT, TargetHeaterCoolerState.COOL]
+            : [TargetHeaterCoolerState.HEAT],
+        })
+        .updateValue(this.climateTargetFor(REGIMES.off.value));
+      if (this.hasCooling) {
+        this.setpointCharacteristic(service, CharacteristicType.CoolingThresholdTemperature)
+          .onGet(this.handleGetTemperatureSetpoint.bind(this))
+          .onSet(this.handleSetTemperatureSetpoint.bind(this));
+      }
+    } else {
+      const { TargetHeatingCoolingState } = CharacteristicType;
+      service.getCharacteristic(TargetHeatingCoolingState).setProps({
+        validValues: this.hasCooling
+          ? [TargetHeatingCoolingState.OFF, TargetHeatingCoolingState.HEAT, TargetHeatingCoolingState.COOL, TargetHeatingCoolingState.AUTO]
+          : [TargetHeatingCoolingState.OFF, TargetHeatingCoolingState.HEAT],
       });
+    }
+  }
+
+  private noteHeatingCoolingState(state: number): void {
+    if (state !== HEATING_COOLING_STATES.cooling || this.hasCooling || !this.climateService) {
+      return;
+    }
+
+    this.platform.log.info(`${this.instanceId}: Unit reports cooling - offering cooling and Auto modes in HomeKit`);
+    this.accessory.context.hasCooling = true;
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+    this.configureClimateModes();
+  }
+
+  private initializeOverrides(): void {
+    const subtypeOf = (mode: OverrideMode) => `override-${mode}`;
+
+    this.removeStaleServices(
+      this.platform.Service.Switch.UUID,
+      this.device.overrides.map(override => subtypeOf(override.mode)),
+      'override-',
+    );
+
+    this.device.overrides.forEach(override => {
+      const service = this.accessory.getServiceById(this.platform.Service.Switch, subtypeOf(override.mode)) ||
+                      this.accessory.addService(this.platform.Service.Switch, override.name, subtypeOf(override.mode));
+      service.setCharacteristic(this.platform.Characteristic.Name, override.name);
+
+      service.getCharacteristic(this.platform.Characteristic.On)
+        .onGet(() => this.activeOverride?.mode === override.mode)
+        .onSet(value => this.handleSetOverride(override, value));
+
+      this.overrideServices.set(override.mode, service);
+    });
+  }
+
+  private initializeSchedule(): void {
+    const settings = this.device.schedule;
+    this.removeStaleServices(this.platform.Service.Switch.UUID, settings ? ['schedule'] : [], 'schedule');
+
+    if (!settings) {
+      return;
+    }
+
+    const service = this.accessory.getServiceById(this.platform.Service.Switch, 'schedule') ||
+                    this.accessory.addService(this.platform.Service.Switch, settings.name, 'schedule');
+    service.setCharacteristic(this.platform.Characteristic.Name, settings.name);
+
+    service.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.scheduleEnabled)
+      .onSet(this.handleSetSchedule.bind(this));
+  }
+
+  private async initializeConnection(): Promise<void> {
+    try {
+      await this.connectModbusClient();
+      this.startHeartbeat();
+      this.startPolling(0);
+    } catch (error) {
+      this.platform.log.error(`Failed to establish initial connection for ${this.instanceId}:`, error);
+      this.scheduleReconnect();
+    }
+  }
+
+  // **ENHANCED CONNECTION MANAGEMENT WITH STRICT DUPLICATE PREVENTION**
+
+  private async connectModbusClient(): Promise<void> {
+    return this.connectionMutex.execute(async () => {
+      // Check if already connected or connecting
+      if (this.connectionState.isConnected && !this.connectionState.isDisconnecting) {
+        this.platform.log.debug(`${this.instanceId}: Already connected`);
+        return;
+      }
+
+      if (this.connectionState.isConnecting) {
+        this.platform.log.debug(`${this.instanceId}: Connection already in progress`);
+        if (this.connectionPromise) {
+          return this.connectionPromise;
+        }
+      }
+
+      // Prevent too frequent connection attempts
+      const timeSinceLastAttempt = Date.now() - this.connectionState.lastConnectionAttempt;
+      if (timeSinceLastAttempt < 2000) {
+        throw new Error(`Connection attempt too soon (${timeSinceLastAttempt}ms ago)`);
+      }
+
+      this.connectionPromise = this.doConnect();
+      try {
+        await this.connectionPromise;
+      } finally {
+        this.connectionPromise = undefined;
+      }
+    });
   }
 
-  handleOnSetSpeed(value: CharacteristicValue, callback: CharacteristicSetCallback) {
-    this.ensureConnection()
-      .then(() => this.client.readHoldingRegisters(this.platform.regimeRegister, 1))
-      .then(response => {
-        const state = response.data[0];
-        if (state === 0) {
-          return this.client.writeRegister(this.platform.regimeRegister, 2)
-            .then(() => new Promise(resolve => setTimeout(resolve, 5000)));
-        }
-        return Promise.resolve();
-      })
-      .then(() => this.client.writeRegister(this.platform.speedRegister, value as number))
-      .then(() => {
-        this.platform.log.debug(`Set Speed to: ${value}`);
-        callback(null);
-      })
-      .catch(error => {
-        this.platform.log.error('Error setting Speed:', error);
-        callback(error);
+  private async doConnect(): Promise<void> {
+    if (this.isCleaningUp) {
+      throw new Error('Cannot connect during cleanup');
+    }
+
+    this.connectionState.isConnecting = true;
+    this.connectionState.lastConnectionAttempt = Date.now();
+
+    try {
+      // Force close any existing connection
+      await this.forceCloseConnection();
+
+      // Wait a moment for complete cleanup
+      await this.sleep(1000);
+
+      const startTime = Date.now();
+      const connectionId = `conn-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+      this.connectionState.connectionId = connectionId;
+
+      this.platform.log.debug(
+        `${this.instanceId}: Connecting to ${this.device.address} (attempt ${this.connectionRetryCount + 1}, connId: ${connectionId})`,
+      );
+
+      const client = await openModbusClient(this.connectionSettings, this.simulator, error => {
+        this.platform.log.debug(`${this.instanceId}: Modbus client error:`, error);
+        this.handleConnectionFailure();
       });
+
+      // Verify connection is still valid (not replaced during connect)
+      if (this.connectionState.connectionId !== connectionId) {
+        await closeModbusClient(client);
+        throw new Error('Connection was superseded during setup');
+      }
+      this.client = client;
+
+      const connectionTime = Date.now() - startTime;
+      this.connectionState.isConnected = true;
+      this.connectionRetryCount = 0;
+      this.clearCache(); // Clear stale cache
+
+      this.platform.log.info(`${this.instanceId}: Connected to ATREA HRU in ${connectionTime}ms (connId: ${connectionId})`);
+
+      // Clear any pending reconnect
+      this.clearReconnectTimeout();
+
+    } catch (error) {
+      this.connectionState.isConnected = false;
+      this.connectionRetryCount++;
+
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      this.platform.log.error(`${this.instanceId}: Connection failed (${this.connectionRetryCount}/${this.maxRetries}): ${errorMsg}`);
+
+      throw error;
+    } finally {
+      this.connectionState.isConnecting = false;
+    }
+  }
+
+  private get connectionSettings(): ConnectionSettings {
+    const { ip, port, serial, unitId } = this.device;
+    return { ip, port, serial, unitId, connectionTimeout: this.connectionTimeout };
+  }
+
+  private get serialNumberBase(): string {
+    if (this.device.simulate) {
+      return `SIM${this.device.address.replace(/^simulated:/, '').replace(/[^a-zA-Z0-9]/g, '')}`;
+    }
+    return this.device.serial
+      ? `${this.device.serial.path.replace(/[^a-zA-Z0-9]/g, '')}${this.device.unitId}`
+      : this.device.ip.replace(/\./g, '');
+  }
+
+  private async forceCloseConnection(): Promise<void> {
+    if (!this.client) {
+      return;
+    }
+
+    this.connectionState.isDisconnecting = true;
+
+    if (await closeModbusClient(this.client)) {
+      this.platform.log.debug(`${this.instanceId}: Connection closed gracefully`);
+    } else {
+      this.platform.log.debug(`${this.instanceId}: Connection did not close in time, dropping it`);
+    }
+
+    // Clear client reference
+    this.client = null;
+    this.connectionState.isConnected = false;
+    this.connectionState.isDisconnecting = false;
+    this.connectionState.connectionId = '';
+  }
+
+  // **SAFE HEARTBEAT MANAGEMENT**
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
+    if (this.isCleaningUp) {
+      return;
+    }
+
+    const heartbeatTimeout = this.queue.defer(async () => {
+      try {
+        await this.performHealthCheck();
+        await this.refreshFaults().catch(error => {
+          this.platform.log.debug(`${this.instanceId}: Fault check failed:`, error);
+        });
+        // Only continue heartbeat if still connected and not cleaning up
+        if (this.connectionState.isConnected && !this.isCleaningUp) {
+          this.startHeartbeat();
+        }
+      } catch (error) {
+        this.platform.log.debug(`${this.instanceId}: Heartbeat failed:`, error);
+        this.handleConnectionFailure();
+      }
+    }, this.heartbeatInterval);
+
+    this.heartbeatTimeout = heartbeatTimeout;
+    this.timeoutRegistry.add(heartbeatTimeout);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimeout) {
+      clearTimeout(this.heartbeatTimeout);
+      this.timeoutRegistry.delete(this.heartbeatTimeout);
+      this.heartbeatTimeout = undefined;
+    }
+  }
+
+  // **BACKGROUND POLLING**
+
+  /**
+   * Datapoints behind the enabled services; the poller reads those the register map defines
+   */
+  private get polledDatapoints(): DatapointName[] {
+    const datapoints: DatapointName[] = ['regime', 'speed', 'alarms', 'warnings'];
+    this.device.temperatureSensors.forEach(sensor => datapoints.push(sensor.datapoint));
+    if (this.device.filterMaintenance) {
+      datapoints.push('filterWarning', 'filterRemainingDays');
+    }
+    if (this.device.carbonDioxideSensor) {
+      datapoints.push(this.device.carbonDioxideSensor.datapoint);
+    }
+    if (this.device.airQualitySensor) {
+      datapoints.push(this.device.airQualitySensor.datapoint);
+    }
+    if (this.device.humiditySensor) {
+      datapoints.push('humidity');
+    }
+    if (this.device.bypass) {
+      datapoints.push('bypassState');
+      if (this.device.bypass.control) {
+        datapoints.push('bypassControl');
+      }
+    }
+    if (this.device.climate) {
+      datapoints.push('temperatureSetpoint', 'heatingCoolingState', this.device.climate.currentDatapoint);
+    }
+    return Array.from(new Set(datapoints));
+  }
+
+  private startPolling(delay: number = this.pollInterval): void {
+    this.stopPolling();
+
+    if (this.isCleaningUp || this.pollInterval <= 0) {
+      return;
+    }
+
+    const pollTimeout = this.queue.defer(async () => {
+      this.timeoutRegistry.delete(pollTimeout);
+      this.pollTimeout = undefined;
+      try {
+        await this.poll();
+      } catch (error) {
+        this.platform.log.debug(`${this.instanceId}: Poll failed:`, error);
+      }
+      // A lost connection restarts polling once it is re-established
+      if (this.connectionState.isConnected && !this.isCleaningUp) {
+        this.startPolling();
+      }
+    }, delay);
+
+    this.pollTimeout = pollTimeout;
+    this.timeoutRegistry.add(pollTimeout);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimeout) {
+      clearTimeout(this.pollTimeout);
+      this.timeoutRegistry.delete(this.pollTimeout);
+      this.pollTimeout = undefined;
+    }
+  }
+
+  /**
+   * Read all polled datapoints block by block and push the values that changed to HomeKit.
+   * Each block is its own queued operation, so writes from HomeKit are not held up by a whole poll.
+   */
+  private async poll(): Promise<void> {
+    const changed = new Set<DatapointName>();
+    try {
+      for (const block of this.pollBlocks) {
+        const data: number[] = await this.executeWithRetry(async () => {
+          if (!this.client) {
+            throw new Error('No client available');
+          }
+          const response = block.type === 'input'
+            ? await this.client.readInputRegisters(block.address, block.length)
+            : await this.client.readHoldingRegisters(block.address, block.length);
+          return response.data;
+        });
+
+        block.datapoints.forEach(({ datapoint, offset }) => {
+          const definition = this.device.registers[datapoint]!;
+          const value = decodeRegisterValue(data[offset], definition);
+          if (this.snapshot.get(datapoint) !== value) {
+            changed.add(datapoint);
+          }
+          this.snapshot.set(datapoint, value);
+          // Keeps reads made while handling writes from going to the unit again
+          this.setCachedValue(this.registerCacheKey(definition.address, definition.type), data[offset]);
+        });
+      }
+      this.snapshotTime = Date.now();
+    } finally {
+      if (changed.size > 0) {
+        this.platform.log.debug(`${this.instanceId}: Poll changed ${Array.from(changed).join(', ')}`);
+        this.publishChanges(changed);
+      }
+    }
+  }
+
+  /**
+   * Push polled values that changed to the HomeKit characteristics showing them
+   */
+  private publishChanges(changed: Set<DatapointName>): void {
+    const { Characteristic: CharacteristicType } = this.platform;
+    const value = (datapoint: DatapointName) => this.snapshot.get(datapoint)!;
+
+    if (changed.has('regime') || (changed.has('speed') && this.snapshot.has('regime'))) {
+      this.updateRegimeCharacteristics(value('regime'));
+    }
+    if (changed.has('speed')) {
+      this.service.updateCharacteristic(CharacteristicType.RotationSpeed, this.speedToPercent(value('speed')));
+    }
+
+    this.temperatureServices.forEach((service, datapoint) => {
+      if (changed.has(datapoint)) {
+        service.updateCharacteristic(CharacteristicType.CurrentTemperature, value(datapoint));
+      }
+    });
+
+    const co2Settings = this.device.carbonDioxideSensor;
+    if (co2Settings && this.carbonDioxideService && changed.has(co2Settings.datapoint)) {
+      const ppm = this.analogValueFor(value(co2Settings.datapoint), co2Settings);
+      this.carbonDioxideService.updateCharacteristic(CharacteristicType.CarbonDioxideLevel, ppm);
+      this.carbonDioxideService.updateCharacteristic(
+        CharacteristicType.CarbonDioxideDetected,
+        this.carbonDioxideDetectedFor(ppm, co2Settings),
+      );
+    }
+
+    const airQualitySettings = this.device.airQualitySensor;
+    if (airQualitySettings && this.airQualityService && changed.has(airQualitySettings.datapoint)) {
+      const level = this.analogValueFor(value(airQualitySettings.datapoint), airQualitySettings);
+      this.airQualityService.updateCharacteristic(
+        CharacteristicType.AirQuality,
+        this.airQualityFor(level, airQualitySettings.thresholds),
+      );
+      if (airQualitySettings.pollutant === 'voc') {
+        this.airQualityService.updateCharacteristic(CharacteristicType.VOCDensity, level);
+      }
+    }
+
+    if (this.humidityService && changed.has('humidity')) {
+      this.humidityService.updateCharacteristic(CharacteristicType.CurrentRelativeHumidity, this.humidityFor(value('humidity')));
+    }
+
+    if (this.bypassStateService && changed.has('bypassState')) {
+      this.bypassStateService.updateCharacteristic(CharacteristicType.ContactSensorState, this.bypassContactFor(value('bypassState')));
+    }
+    if (changed.has('bypassControl')) {
+      this.updateBypassCharacteristics(value('bypassControl'));
+    }
+
+    if (this.climateService && this.device.climate) {
+      const { currentDatapoint, serviceType } = this.device.climate;
+      if (changed.has(currentDatapoint)) {
+        this.climateService.updateCharacteristic(CharacteristicType.CurrentTemperature, value(currentDatapoint));
+      }
+      if (changed.has('temperatureSetpoint')) {
+        const setpoint = this.setpointFor(value('temperatureSetpoint'));
+        if (serviceType === 'heaterCooler') {
+          this.climateService.updateCharacteristic(CharacteristicType.HeatingThresholdTemperature, setpoint);
+          if (this.hasCooling) {
+            this.climateService.updateCharacteristic(CharacteristicType.CoolingThresholdTemperature, setpoint);
+          }
+        } else {
+          this.climateService.updateCharacteristic(CharacteristicType.TargetTemperature, setpoint);
+        }
+      }
+      // Regime changes already updated the climate state above
+      if (changed.has('heatingCoolingState') && !changed.has('regime') && this.snapshot.has('regime')) {
+        this.updateClimateCharacteristics(value('regime'));
+      }
+    }
+
+    if (this.filterService && changed.has('filterWarning')) {
+      this.filterService.updateCharacteristic(CharacteristicType.FilterChangeIndication, this.filterChangeFor(value('filterWarning')));
+    }
+    if (this.filterService && changed.has('filterRemainingDays')) {
+      this.filterService.updateCharacteristic(CharacteristicType.FilterLifeLevel, this.filterLifeFor(value('filterRemainingDays')));
+    }
+
+    if (changed.has('alarms') || changed.has('warnings')) {
+      this.refreshFaults().catch(error => {
+        this.platform.log.debug(`${this.instanceId}: Fault check failed:`, error);
+      });
+    }
+
+    this.notifyStateChange();
+  }
+
+  private async performHealthCheck(): Promise<void> {
+    // Comprehensive state check
+    if (!this.connectionState.isConnected ||
+        this.isCleaningUp ||
+        this.connectionState.isConnecting ||
+        this.connectionState.isDisconnecting) {
+      this.platform.log.debug(`${this.instanceId}: Skipping heartbeat - invalid state`);
+      return;
+    }
+
+    try {
+      // Heartbeat with timeout
+      await Promise.race([
+        this.batchReadRegister(this.device.regimeRegister),
+        new Promise<never>((_, reject) =>
+          setTimeout(() => reject(new Error('Heartbeat timeout')), 5000),
+        ),
+      ]);
+      this.updateConnectionHealth(true);
+    } catch (error) {
+      this.updateConnectionHealth(false);
+      throw error;
+    }
+  }
+
+  // **SAFE OPERATION QUEUE**
+
+  private async addToQueue<T>(operation: () => Promise<T>, priority: boolean = false): Promise<T> {
+    if (this.isCleaningUp) {
+      throw new Error('Cannot add operations during cleanup');
+    }
+
+    return this.queue.run(async () => {
+      try {
+        const result = await operation();
+        this.updateConnectionHealth(true);
+        return result;
+      } catch (error) {
+        this.updateConnectionHealth(false);
+        if (isDeviceBusy(error)) {
+          this.platform.log.warn(`${this.instanceId}: Queue operation failed with device busy error`);
+        } else {
+          this.platform.log.error(`${this.instanceId}: Queue operation failed:`, error);
+        }
+        throw error;
+      }
+    }, priority);
+  }
+
+  private async executeWithRetry<T>(operation: () => Promise<T>): Promise<T> {
+    return this.addToQueue(async () => {
+      // Ensure connection without race conditions
+      if (!this.connectionState.isConnected && !this.connectionState.isConnecting) {
+        await this.connectModbusClient();
+      }
+
+      // Wait for connection to be ready
+      let waitCount = 0;
+      while (this.connectionState.isConnecting && waitCount < 50) { // Max 5s wait
+        await this.sleep(100);
+        waitCount++;
+      }
+
+      if (!this.connectionState.isConnected) {
+        throw new Error('Connection not available for operation');
+      }
+
+      try {
+        return await this.retryWhileBusy(operation);
+      } catch (error) {
+        // A busy unit is still connected, reconnecting would only add load
+        if (isDeviceBusy(error)) {
+          throw new Error(`Device persistently busy after ${MAX_BUSY_RETRIES} retries. Please check device load.`);
+        }
+
+        this.platform.log.debug(`${this.instanceId}: Operation failed, attempting recovery:`, error);
+        this.handleConnectionFailure();
+
+        // Single recovery attempt
+        await this.connectModbusClient();
+        if (this.connectionState.isConnected) {
+          return await this.retryWhileBusy(operation);
+        } else {
+          throw new Error('Retry failed - connection not restored');
+        }
+      }
+    });
+  }
+
+  private async retryWhileBusy<T>(operation: () => Promise<T>): Promise<T> {
+    const result = await retryWhileBusy(operation, (attempt, delay) => {
+      this.deviceBusyCount = attempt;
+      this.deviceBusyTotal++;
+      this.platform.log.warn(`${this.instanceId}: Device busy (attempt ${attempt}), waiting ${Math.round(delay)}ms before retry`);
+    });
+    this.deviceBusyCount = 0;
+    return result;
+  }
+
+  // **ENHANCED CACHING**
+
+  private getCachedValue(key: string): number | null {
+    const cached = this.cache.get(key);
+    if (!cached) {
+      return null;
+    }
+
+    if (Date.now() - cached.timestamp > cached.ttl) {
+      this.cache.delete(key);
+      return null;
+    }
+
+    return cached.value;
+  }
+
+  private setCachedValue(key: string, value: number, ttl: number = this.cacheTimeout): void {
+    this.cache.set(key, {
+      value,
+      timestamp: Date.now(),
+      ttl,
+    });
+  }
+
+  private registerCacheKey(register: number, type: RegisterType = 'holding'): string {
+    return type === 'holding' ? `read_${register}` : `read_${type}_${register}`;
+  }
+
+  private clearDatapointCache(datapoint: DatapointName): void {
+    const definition = this.device.registers[datapoint];
+    if (definition) {
+      this.cache.delete(this.registerCacheKey(definition.address, definition.type));
+    }
+    // Until the next poll, gets read the datapoint from the unit
+    this.snapshot.delete(datapoint);
+  }
+
+  // Written values stand in for polled ones until the next poll; with polling off the snapshot stays empty
+  private updateSnapshot(datapoint: DatapointName, value: number): void {
+    if (this.snapshot.has(datapoint)) {
+      this.snapshot.set(datapoint, value);
+    }
+    this.notifyStateChange();
+  }
+
+  private clearCache(): void {
+    this.cache.clear();
+    this.pendingReads.clear();
+  }
+
+  // **SAFE BATCH OPERATIONS**
+
+  private async batchReadRegister(register: number, type: RegisterType = 'holding'): Promise<number> {
+    const cacheKey = this.registerCacheKey(register, type);
+
+    // Check cache first
+    const cached = this.getCachedValue(cacheKey);
+    if (cached !== null) {
+      this.platform.log.debug(`${this.instanceId}: Cache hit for register ${register}`);
+      return cached;
+    }
+
+    // Check if same read is already pending
+    const pending = this.pendingReads.get(cacheKey);
+    if (pending) {
+      this.platform.log.debug(`${this.instanceId}: Joining existing read for register ${register}`);
+      return pending;
+    }
+
+    // Create new read operation
+    const readPromise = this.executeWithRetry(async () => {
+      if (!this.client) {
+        throw new Error('No client available');
+      }
+      const response = type === 'input'
+        ? await this.client.readInputRegisters(register, 1)
+        : await this.client.readHoldingRegisters(register, 1);
+      return response.data[0];
+    }).then(value => {
+      this.setCachedValue(cacheKey, value);
+      this.pendingReads.delete(cacheKey);
+      return value;
+    }).catch(error => {
+      this.pendingReads.delete(cacheKey);
+      throw error;
+    });
+
+    this.pendingReads.set(cacheKey, readPromise);
+    return readPromise;
+  }
+
+  /**
+   * Read a named datapoint from the device register map, decoded into engineering units
+   */
+  private async readDatapoint(datapoint: DatapointName): Promise<number> {
+    const definition = this.device.registers[datapoint];
+    if (!definition) {
+      throw new Error(`Datapoint ${datapoint} is not defined for model ${this.device.model}`);
+    }
+
+    const raw = await this.batchReadRegister(definition.address, definition.type);
+    return decodeRegisterValue(raw, definition);
+  }
+
+  /**
+   * Latest polled value of a datapoint; read from the unit when it has not been polled yet
+   */
+  private async currentValue(datapoint: DatapointName): Promise<number> {
+    const value = this.snapshot.get(datapoint);
+    return value !== undefined ? value : this.readDatapoint(datapoint);
+  }
+
+  /**
+   * Current value of an analog input, converted with the configured linear scaling
+   */
+  private async readAnalogSensor(settings: AnalogSensorSettings): Promise<number> {
+    const raw = await this.currentValue(settings.datapoint);
+    const value = this.analogValueFor(raw, settings);
+    this.platform.log.debug(`${this.instanceId}: ${settings.name}: ${value} (raw: ${raw})`);
+    return value;
+  }
+
+  private analogValueFor(raw: number, settings: AnalogSensorSettings): number {
+    return Math.max(Math.round(raw * settings.scale + settings.offset), 0);
+  }
+
+  private carbonDioxideDetectedFor(ppm: number, settings: CarbonDioxideSensorSettings): number {
+    const { CarbonDioxideDetected } = this.platform.Characteristic;
+    return ppm >= settings.threshold ? CarbonDioxideDetected.CO2_LEVELS_ABNORMAL : CarbonDioxideDetected.CO2_LEVELS_NORMAL;
+  }
+
+  private humidityFor(value: number): number {
+    return Math.min(Math.max(value, 0), 100);
+  }
+
+  // An open damper reads as an open contact
+  private bypassContactFor(state: number): number {
+    const { ContactSensorState } = this.platform.Characteristic;
+    return state !== 0 ? ContactSensorState.CONTACT_NOT_DETECTED : ContactSensorState.CONTACT_DETECTED;
+  }
+
+  private setpointFor(value: number): number {
+    const { minTemperature, maxTemperature } = this.device.climate!;
+    return Math.min(Math.max(value, minTemperature), maxTemperature);
+  }
+
+  /**
+   * HomeKit current heating state; a unit that is off shows as inactive, a running one as heating,
+   * cooling or idle according to what it reports
+   */
+  private climateStateFor(regime: number, state: number): number {
+    const { CurrentHeaterCoolerState, CurrentHeatingCoolingState } = this.platform.Characteristic;
+    const isOff = regime === REGIMES.off.value;
+
+    if (this.device.climate!.serviceType === 'thermostat') {
+      if (isOff) {
+        return CurrentHeatingCoolingState.OFF;
+      }
+      return state === HEATING_COOLING_STATES.heating ? CurrentHeatingCoolingState.HEAT
+        : state === HEATING_COOLING_STATES.cooling ? CurrentHeatingCoolingState.COOL
+          : CurrentHeatingCoolingState.OFF;
+    }
+
+    if (isOff) {
+      return CurrentHeaterCoolerState.INACTIVE;
+    }
+    return state === HEATING_COOLING_STATES.heating ? CurrentHeaterCoolerState.HEATING
+      : state === HEATING_COOLING_STATES.cooling ? CurrentHeaterCoolerState.COOLING
+        : CurrentHeaterCoolerState.IDLE;
+  }
+
+  /**
+   * HomeKit target mode: Auto for a unit that heats and cools on its own, otherwise heating; a thermostat
+   * shows a unit that is off as off
+   */
+  private climateTargetFor(regime: number): number {
+    const { TargetHeaterCoolerState, TargetHeatingCoolingState } = this.platform.Characteristic;
+
+    if (this.device.climate!.serviceType === 'heaterCooler') {
+      return this.hasCooling ? TargetHeaterCoolerState.AUTO : TargetHeaterCoolerState.HEAT;
+    }
+    if (regime === REGIMES.off.value) {
+      return TargetHeatingCoolingState.OFF;
+    }
+    return this.hasCooling ? TargetHeatingCoolingState.AUTO : TargetHeatingCoolingState.HEAT;
+  }
+
+  // Units without a heating state register are shown idle while running
+  private async readHeatingCoolingState(): Promise<number> {
+    if (!this.device.registers.heatingCoolingState) {
+      return HEATING_COOLING_STATES.idle;
+    }
+    const state = await this.currentValue('heatingCoolingState');
+    this.noteHeatingCoolingState(state);
+    return state;
+  }
+
+  private filterChangeFor(warning: number): number {
+    const { FilterChangeIndication } = this.platform.Characteristic;
+    return warning !== 0 ? FilterChangeIndication.CHANGE_FILTER : FilterChangeIndication.FILTER_OK;
+  }
+
+  private filterLifeFor(remainingDays: number): number {
+    const lifetimeDays = this.device.filterMaintenance!.lifetimeDays;
+    return Math.min(Math.max(Math.round((remainingDays / lifetimeDays) * 100), 0), 100);
+  }
+
+  /**
+   * Map a concentration onto HomeKit AirQuality using four ascending thresholds
+   */
+  private airQualityFor(value: number, thresholds: number[]): number {
+    const { AirQuality } = this.platform.Characteristic;
+    const levels = [AirQuality.EXCELLENT, AirQuality.GOOD, AirQuality.FAIR, AirQuality.INFERIOR];
+    const index = thresholds.findIndex(threshold => value < threshold);
+    return index === -1 ? AirQuality.POOR : levels[index];
+  }
+
+  /**
+   * Write a named datapoint; must be called from within a queued operation
+   */
+  private async writeDatapoint(datapoint: DatapointName, value: number): Promise<void> {
+    const definition = this.device.registers[datapoint];
+    if (!definition) {
+      throw new Error(`Datapoint ${datapoint} is not defined for model ${this.device.model}`);
+    }
+    if (definition.type !== 'holding') {
+      throw new Error(`Datapoint ${datapoint} is not a writable holding register`);
+    }
+    if (!this.client) {
+      throw new Error('No client available');
+    }
+
+    await this.client.writeRegister(definition.address, encodeRegisterValue(value, definition));
+    this.cache.delete(this.registerCacheKey(definition.address, definition.type));
+    this.updateSnapshot(datapoint, value);
+  }
+
+  // **CHARACTERISTIC HANDLERS WITH ENHANCED SAFETY**
+
+  /**
+   * Answer a HomeKit get. Values come from the poll snapshot; only datapoints that have not
+   * been polled yet are read from the unit, through the operation queue.
+   */
+  private async serveGet(read: () => Promise<CharacteristicValue>): Promise<CharacteristicValue> {
+    try {
+      return await read();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      this.platform.log.error(`${this.instanceId}: Characteristic read failed: ${errorMsg}`);
+      throw this.communicationFailure();
+    }
+  }
+
+  /**
+   * HomeKit shows the accessory as "No Response" for this status
+   */
+  private communicationFailure(): HapStatusError {
+    return new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+  }
+
+  /**
+   * Run an operation through the queue with a timeout; failures reach HomeKit as a communication failure
+   */
+  private async executeCharacteristicOperation<T>(
+    operation: () => Promise<T>,
+    timeoutMs?: number,
+  ): Promise<T> {
+    const actualTimeout = timeoutMs || this.operationTimeout;
+    let timeoutId: NodeJS.Timeout | undefined;
+
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        reject(new Error(`Operation timeout after ${actualTimeout}ms`));
+      }, actualTimeout);
+      this.timeoutRegistry.add(timeoutId);
+    });
+
+    try {
+      const result = await Promise.race([
+        this.executeWithRetry(operation),
+        timeoutPromise,
+      ]);
+
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        this.timeoutRegistry.delete(timeoutId);
+      }
+
+      return result;
+    } catch (error) {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        this.timeoutRegistry.delete(timeoutId);
+      }
+
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      this.platform.log.error(`${this.instanceId}: Characteristic operation failed: ${errorMsg}`);
+      throw this.communicationFailure();
+    }
+  }
+
+  /**
+   * Write the regime register and reflect the new regime on the fan and regime switches
+   */
+  private async writeRegime(regime: number): Promise<void> {
+    if (!this.client) {
+      throw new Error('No client available');
+    }
+
+    this.platform.log.debug(`${this.instanceId}: Setting regime to ${this.describeRegime(regime)}`);
+    await this.client.writeRegister(this.device.regimeRegister, regime);
+
+    // Give the unit time to apply the new regime
+    await this.sleep(1000);
+
+    // Invalidate cache
+    this.cache.delete(`read_${this.device.regimeRegister}`);
+    this.updateSnapshot('regime', regime);
+
+    this.updateRegimeCharacteristics(regime);
+  }
+
+  private updateRegimeCharacteristics(regime: number): void {
+    const isOn = regime !== REGIMES.off.value;
+    this.service.updateCharacteristic(this.powerCharacteristic, this.device.serviceType === 'fan' ? isOn : Number(isOn));
+
+    if (this.targetStateCharacteristic && this.currentStateCharacteristic) {
+      this.service.updateCharacteristic(this.targetStateCharacteristic, this.targetStateFor(regime));
+      const speed = this.snapshot.get('speed') ?? this.getCachedValue(this.registerCacheKey(this.device.speedRegister));
+      if (!isOn || speed !== null) {
+        this.service.updateCharacteristic(this.currentStateCharacteristic, this.currentStateFor(regime, speed ?? 0));
+      }
+    }
+
+    this.regimeServices.forEach((service, name) => {
+      service.updateCharacteristic(this.platform.Characteristic.On, REGIMES[name].value === regime);
+    });
+
+    this.updateClimateCharacteristics(regime);
+  }
+
+  private updateClimateCharacteristics(regime: number): void {
+    if (!this.climateService) {
+      return;
+    }
+
+    const { Characteristic: CharacteristicType } = this.platform;
+    const isOn = regime !== REGIMES.off.value;
+    const state = this.snapshot.get('heatingCoolingState') ?? HEATING_COOLING_STATES.idle;
+    this.noteHeatingCoolingState(state);
+
+    if (this.device.climate!.serviceType === 'heaterCooler') {
+      this.climateService.updateCharacteristic(CharacteristicType.Active, Number(isOn));
+      this.climateService.updateCharacteristic(CharacteristicType.TargetHeaterCoolerState, this.climateTargetFor(regime));
+      this.climateService.updateCharacteristic(CharacteristicType.CurrentHeaterCoolerState, this.climateStateFor(regime, state));
+    } else {
+      this.climateService.updateCharacteristic(CharacteristicType.TargetHeatingCoolingState, this.climateTargetFor(regime));
+      this.climateService.updateCharacteristic(CharacteristicType.CurrentHeatingCoolingState, this.climateStateFor(regime, state));
+    }
+  }
+
+  private updateBypassCharacteristics(control: number): void {
+    this.bypassServices.forEach((service, mode) => {
+      service.updateCharacteristic(this.platform.Characteristic.On, BYPASS_MODES[mode].value === control);
+    });
+  }
+
+  // **SPEED RANGE MAPPING** (see speedRange.ts)
+
+  private get speedMinStep(): number {
+    return Math.round((100 / speedLevels(this.device.speedRange).length) * 1000) / 1000;
+  }
+
+  private percentToSpeed(percent: number): number {
+    return percentToSpeed(this.device.speedRange, percent);
+  }
+
+  private speedToPercent(speed: number): number {
+    return speedToPercent(this.device.speedRange, speed);
+  }
+
+  private describeSpeed(speed: number): string {
+    return describeSpeed(this.device.speedRange, speed);
+  }
+
+  /**
+   * Write the speed for a HomeKit percent, switching the unit on first if needed; must be called from within a queued operation.
+   * Returns the HomeKit percent that matches the value actually written.
+   */
+  private async writeSpeed(percent: number): Promise<number> {
+    if (!this.client) {
+      throw new Error('No client available');
+    }
+
+    const speed = this.percentToSpeed(percent);
+
+    // The unit rejects values below its minimum, so 0 % switches it off instead
+    if (speed === 0 && this.device.speedRange.min > 0) {
+      await this.writeRegime(REGIMES.off.value);
+      return 0;
+    }
+
+    // Check if device is on, turn on if needed
+    const onRegime = REGIMES[this.device.onRegime].value;
+    const state = await this.batchReadRegister(this.device.regimeRegister);
+    if (state === REGIMES.off.value && speed > 0) {
+      this.platform.log.debug(`${this.instanceId}: Turning device on before setting speed`);
+      await this.writeRegime(onRegime);
+
+      await this.sleep(500);
+
+      // Check that the unit really turned on
+      const newState = await this.batchReadRegister(this.device.regimeRegister);
+      if (newState === REGIMES.off.value) {
+        this.platform.log.warn(`${this.instanceId}: Device did not turn on, retrying...`);
+        await this.sleep(1000);
+        await this.writeRegime(onRegime);
+        await this.sleep(500);
+      }
+    }
+
+    // Extra pause after turning on, before setting the speed
+    if (state === REGIMES.off.value && speed > 0) {
+      await this.sleep(500);
+    }
+
+    // Set speed
+    this.platform.log.debug(`${this.instanceId}: Setting speed to ${this.describeSpeed(speed)} (${percent}%)`);
+    await this.client.writeRegister(this.device.speedRegister, speed);
+
+    // Invalidate relevant cache
+    this.cache.delete(`read_${this.device.regimeRegister}`);
+    this.cache.delete(`read_${this.device.speedRegister}`);
+    this.updateSnapshot('speed', speed);
+
+    return this.speedToPercent(speed);
+  }
+
+  private get activeOverride(): OverrideState | undefined {
+    return this.accessory.context.override;
+  }
+
+  private saveOverride(state: OverrideState | undefined): void {
+    if (state) {
+      this.accessory.context.override = state;
+    } else {
+      delete this.accessory.context.override;
+    }
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+
+    this.overrideServices.forEach((service, mode) => {
+      service.updateCharacteristic(this.platform.Characteristic.On, state?.mode === mode);
+    });
+    this.notifyStateChange();
+  }
+
+  /**
+   * Switch to the override regime and speed, remembering what to return to.
+   * Starting another override while one runs keeps the state saved by the first one.
+   */
+  private async startOverride(override: OverrideSettings): Promise<void> {
+    const running = this.activeOverride;
+    const previousRegime = running ? running.previousRegime : await this.batchReadRegister(this.device.regimeRegister);
+    const previousSpeed = running
+      ? running.previousSpeed
+      : this.speedToPercent(await this.batchReadRegister(this.device.speedRegister));
+
+    this.platform.log.info(`${this.device.name}: Starting ${override.name} for ${override.duration} min`);
+    await this.writeRegime(REGIMES[override.regime].value);
+    if (override.speed !== undefined) {
+      const applied = await this.writeSpeed(override.speed);
+      this.service.updateCharacteristic(this.platform.Characteristic.RotationSpeed, applied);
+    }
+
+    this.saveOverride({
+      mode: override.mode,
+      endsAt: Date.now() + override.duration * 60000,
+      previousRegime,
+      previousSpeed,
+    });
+    this.scheduleOverrideEnd();
+  }
+
+  /**
+   * Restore the regime and speed from before the override; must be called from within a queued operation
+   */
+  private async endOverride(): Promise<void> {
+    const running = this.activeOverride;
+    this.clearOverrideTimeout();
+    if (!running) {
+      return;
+    }
+
+    this.platform.log.info(
+      `${this.device.name}: Ending ${running.mode} override, restoring ${this.describeRegime(running.previousRegime)}`,
+    );
+    await this.writeRegime(running.previousRegime);
+    if (running.previousRegime !== REGIMES.off.value) {
+      const applied = await this.writeSpeed(running.previousSpeed);
+      this.service.updateCharacteristic(this.platform.Characteristic.RotationSpeed, applied);
+    }
+
+    this.saveOverride(undefined);
+  }
+
+  private scheduleOverrideEnd(delay?: number): void {
+    const running = this.activeOverride;
+    this.clearOverrideTimeout();
+    if (!running || this.isCleaningUp) {
+      return;
+    }
+
+    const timeout = this.queue.defer(() => {
+      this.timeoutRegistry.delete(timeout);
+      this.overrideTimeout = undefined;
+      this.executeWithRetry(() => this.endOverride()).catch(error => {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        this.platform.log.warn(`${this.device.name}: Failed to end ${running.mode} override, retrying in 1 min: ${errorMsg}`);
+        this.scheduleOverrideEnd(60000);
+      });
+    }, delay ?? Math.max(running.endsAt - Date.now(), 0));
+
+    this.overrideTimeout = timeout;
+    this.timeoutRegistry.add(timeout);
+  }
+
+  private clearOverrideTimeout(): void {
+    if (this.overrideTimeout) {
+      clearTimeout(this.overrideTimeout);
+      this.timeoutRegistry.delete(this.overrideTimeout);
+      this.overrideTimeout = undefined;
+    }
+  }
+
+  /**
+   * Pick up an override that was running when Homebridge stopped; an expired one is ended right away
+   */
+  private resumeOverride(): void {
+    const running = this.activeOverride;
+    if (!running) {
+      return;
+    }
+
+    if (!this.device.overrides.some(override => override.mode === running.mode)) {
+      this.platform.log.info(`${this.device.name}: ${running.mode} override is no longer configured, ending it`);
+      this.scheduleOverrideEnd(0);
+      return;
+    }
+
+    const remaining = Math.max(Math.round((running.endsAt - Date.now()) / 60000), 0);
+    this.platform.log.info(`${this.device.name}: Resuming ${running.mode} override (${remaining} min remaining)`);
+    this.scheduleOverrideEnd();
+  }
+
+  // The schedule switch state is kept in the accessory context; a configured schedule starts enabled
+  private get scheduleEnabled(): boolean {
+    return this.accessory.context.scheduleEnabled !== false;
+  }
+
+  /**
+   * Called by the platform once a minute; applies the schedule point due in this minute, if any
+   */
+  public runSchedule(now: Date): void {
+    if (!this.device.schedule || !this.scheduleEnabled || this.isCleaningUp) {
+      return;
+    }
+
+    const point = findDuePoint(this.device.schedule.points, now);
+    if (point) {
+      this.executeWithRetry(() => this.applySchedulePoint(point)).catch(error => {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        this.platform.log.error(`${this.device.name}: Failed to apply schedule point ${point.time}: ${errorMsg}`);
+      });
+    }
+  }
+
+  /**
+   * Apply a schedule point; must be called from within a queued operation.
+   * While a timed override runs, the point replaces the state the override returns to.
+   */
+  private async applySchedulePoint(point: SchedulePoint): Promise<void> {
+    const regime = point.regime !== undefined ? REGIMES[point.regime].value : undefined;
+    const running = this.activeOverride;
+
+    if (running) {
+      this.platform.log.info(`${this.device.name}: Schedule point ${point.time} deferred until ${running.mode} override ends`);
+      this.saveOverride({
+        ...running,
+        previousRegime: regime ?? running.previousRegime,
+        previousSpeed: point.speed ?? running.previousSpeed,
+      });
+      return;
+    }
+
+    this.platform.log.info(`${this.device.name}: Applying schedule point ${point.time}` +
+      `${regime !== undefined ? ` - regime ${this.describeRegime(regime)}` : ''}` +
+      `${point.speed !== undefined ? ` - speed ${point.speed}%` : ''}`);
+
+    if (regime !== undefined) {
+      await this.writeRegime(regime);
+    }
+    if (point.speed !== undefined && regime !== REGIMES.off.value) {
+      const applied = await this.writeSpeed(point.speed);
+      this.service.updateCharacteristic(this.platform.Characteristic.RotationSpeed, applied);
+    }
+  }
+
+  private get hasFaultRegisters(): boolean {
+    return this.device.registers.alarms !== undefined || this.device.registers.warnings !== undefined;
+  }
+
+  /**
+   * Read the alarm and warning bitfields, log changes since the last read and update StatusFault.
+   * Only alarms count as a fault; warnings are logged.
+   */
+  private async refreshFaults(): Promise<boolean> {
+    if (!this.hasFaultRegisters) {
+      return false;
+    }
+
+    const profile = getModelProfile(this.device.model);
+    const sources = [
+      { severity: 'alarm' as const, datapoint: 'alarms' as const, table: profile.alarmBits },
+      { severity: 'warning' as const, datapoint: 'warnings' as const, table: profile.warningBits },
+    ];
+
+    const current = new Map<string, ActiveFault>();
+    for (const { severity, datapoint, table } of sources) {
+      if (!this.device.registers[datapoint]) {
+        continue;
+      }
+      const value = await this.currentValue(datapoint);
+      decodeFaults(value, table).forEach(fault => current.set(`${severity}:${fault.id}`, { severity, ...fault }));
+    }
+
+    const label = (fault: ActiveFault) => `${this.device.name}: ${fault.severity === 'alarm' ? 'Alarm' : 'Warning'}`;
+    current.forEach((fault, key) => {
+      if (this.activeFaults.has(key)) {
+        return;
+      }
+      if (fault.severity === 'alarm') {
+        this.platform.log.error(`${label(fault)} raised: ${fault.description}`);
+      } else {
+        this.platform.log.warn(`${label(fault)} raised: ${fault.description}`);
+      }
+    });
+    this.activeFaults.forEach((fault, key) => {
+      if (!current.has(key)) {
+        this.platform.log.info(`${label(fault)} cleared: ${fault.description}`);
+      }
+    });
+    this.activeFaults = current;
+
+    const { StatusFault } = this.platform.Characteristic;
+    const hasAlarm = Array.from(current.values()).some(fault => fault.severity === 'alarm');
+    this.service.updateCharacteristic(StatusFault, hasAlarm ? StatusFault.GENERAL_FAULT : StatusFault.NO_FAULT);
+    return hasAlarm;
+  }
+
+  private describeRegime(regime: number): string {
+    const name = getRegimeName(regime);
+    return name ? `${REGIMES[name].name} (${regime})` : `unknown (${regime})`;
+  }
+
+  // TargetFanState and TargetAirPurifierState share values: MANUAL = 0, AUTO = 1
+  private targetStateFor(regime: number): number {
+    return regime === REGIMES.automatic.value
+      ? this.platform.Characteristic.TargetFanState.AUTO
+      : this.platform.Characteristic.TargetFanState.MANUAL;
+  }
+
+  // CurrentFanState and CurrentAirPurifierState share values: INACTIVE = 0, IDLE = 1, BLOWING_AIR/PURIFYING_AIR = 2
+  private currentStateFor(regime: number, speed: number): number {
+    if (regime === REGIMES.off.value) {
+      return this.platform.Characteristic.CurrentFanState.INACTIVE;
+    }
+    return speed > 0
+      ? this.platform.Characteristic.CurrentFanState.BLOWING_AIR
+      : this.platform.Characteristic.CurrentFanState.IDLE;
+  }
+
+  /**
+   * Regime used when HomeKit hands control back from Auto to manual
+   */
+  private get manualRegime(): number {
+    return this.device.onRegime === 'automatic' ? REGIMES.ventilation.value : REGIMES[this.device.onRegime].value;
+  }
+
+  async handleGetTargetState(): Promise<CharacteristicValue> {
+    return this.serveGet(async () => this.targetStateFor(await this.currentValue('regime')));
+  }
+
+  async handleSetTargetState(value: CharacteristicValue): Promise<void> {
+    await this.executeCharacteristicOperation(
+      async () => {
+        const isAuto = value === this.platform.Characteristic.TargetFanState.AUTO;
+        this.platform.log.debug(`${this.instanceId}: Setting target state to ${isAuto ? 'AUTO' : 'MANUAL'}`);
+
+        const current = await this.batchReadRegister(this.device.regimeRegister);
+        if (isAuto) {
+          await this.writeRegime(REGIMES.automatic.value);
+        } else if (current === REGIMES.automatic.value) {
+          await this.writeRegime(this.manualRegime);
+        }
+      },
+      20000,
+    );
+  }
+
+  async handleGetCurrentState(): Promise<CharacteristicValue> {
+    return this.serveGet(async () => {
+      const regime = await this.currentValue('regime');
+      const speed = regime === REGIMES.off.value ? 0 : await this.currentValue('speed');
+      return this.currentStateFor(regime, speed);
+    });
+  }
+
+  async handleOnGetOn(): Promise<CharacteristicValue> {
+    return this.serveGet(async () => {
+      const value = await this.currentValue('regime');
+      const isOn = value === REGIMES.off.value ? 0 : 1;
+      this.platform.log.debug(`${this.instanceId}: State: ${isOn} (regime: ${this.describeRegime(value)})`);
+      this.updateRegimeCharacteristics(value);
+      return isOn;
+    });
+  }
+
+  async handleOnSetOn(value: CharacteristicValue): Promise<void> {
+    await this.executeCharacteristicOperation(
+      () => this.switchPower(Boolean(value)),
+      20000,
+    );
+  }
+
+  /**
+   * Switch the unit on in the on regime or off; must be called from within a queued operation
+   */
+  private async switchPower(on: boolean): Promise<void> {
+    if (on) {
+      // Keep whatever regime the unit already runs in, only switch it on from Off
+      const current = await this.batchReadRegister(this.device.regimeRegister);
+      if (current !== REGIMES.off.value) {
+        this.platform.log.debug(`${this.instanceId}: Already running in regime ${this.describeRegime(current)}`);
+        this.updateRegimeCharacteristics(current);
+        return;
+      }
+      await this.writeRegime(REGIMES[this.device.onRegime].value);
+    } else {
+      await this.writeRegime(REGIMES.off.value);
+    }
+
+    this.platform.log.debug(`${this.instanceId}: Device state set successfully`);
+  }
+
+  async handleGetRegimeSwitch(regime: RegimeName): Promise<CharacteristicValue> {
+    return this.serveGet(async () => {
+      const value = await this.currentValue('regime');
+      this.updateRegimeCharacteristics(value);
+      return value === REGIMES[regime].value;
+    });
+  }
+
+  async handleSetRegimeSwitch(regime: RegimeName, value: CharacteristicValue): Promise<void> {
+    await this.executeCharacteristicOperation(
+      async () => {
+        if (value) {
+          await this.writeRegime(REGIMES[regime].value);
+          return;
+        }
+
+        // Switching the active regime off falls back to Off, or to the on regime for the Off switch itself
+        const current = await this.batchReadRegister(this.device.regimeRegister);
+        if (current !== REGIMES[regime].value) {
+          this.updateRegimeCharacteristics(current);
+          return;
+        }
+        await this.writeRegime(regime === 'off' ? REGIMES[this.device.onRegime].value : REGIMES.off.value);
+      },
+      20000,
+    );
+  }
+
+  async handleOnGetSpeed(): Promise<CharacteristicValue> {
+    return this.serveGet(async () => {
+      const value = await this.currentValue('speed');
+      const percent = this.speedToPercent(value);
+      this.platform.log.debug(`${this.instanceId}: Speed: ${this.describeSpeed(value)} (${percent}%)`);
+      return percent;
+    });
+  }
+
+  async handleOnSetSpeed(value: CharacteristicValue): Promise<void> {
+    await this.executeCharacteristicOperation(
+      async () => {
+        const applied = await this.writeSpeed(value as number);
+        this.platform.log.debug(`${this.instanceId}: Speed set successfully to: ${applied}%`);
+        if (applied !== value) {
+          // Snap the slider to the level the unit actually runs at
+          this.service.updateCharacteristic(this.platform.Characteristic.RotationSpeed, applied);
+        }
+      },
+      25000,
+    );
+  }
+
+  async handleGetTemperature(datapoint: DatapointName): Promise<CharacteristicValue> {
+    return this.serveGet(async () => {
+      const value = await this.currentValue(datapoint);
+      this.platform.log.debug(`${this.instanceId}: ${datapoint}: ${value}°C`);
+      return value;
+    });
+  }
+
+  async handleSetOverride(override: OverrideSettings, value: CharacteristicValue): Promise<void> {
+    await this.executeCharacteristicOperation(
+      async () => {
+        if (value) {
+          await this.startOverride(override);
+        } else if (this.activeOverride?.mode === override.mode) {
+          await this.endOverride();
+        }
+      },
+      30000,
+    );
+  }
+
+  async handleSetSchedule(value: CharacteristicValue): Promise<void> {
+    this.accessory.context.scheduleEnabled = Boolean(value);
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+    this.platform.log.info(`${this.device.name}: Schedule ${value ? 'enabled' : 'disabled'}`);
+
+    if (!value) {
+      return;
+    }
+
+    // Enabling the schedule catches up with the point that should be in effect now
+    const point = findCurrentPoint(this.device.schedule!.points, new Date());
+    if (point) {
+      await this.executeCharacteristicOperation(() => this.applySchedulePoint(point), 30000);
+    }
+  }
+
+  async handleGetStatusFault(): Promise<CharacteristicValue> {
+    return this.serveGet(async () => {
+      const { StatusFault } = this.platform.Characteristic;
+      return await this.refreshFaults() ? StatusFault.GENERAL_FAULT : StatusFault.NO_FAULT;
+    });
+  }
+
+  async handleGetBypassState(): Promise<CharacteristicValue> {
+    return this.serveGet(async () => {
+      const state = await this.currentValue('bypassState');
+      this.platform.log.debug(`${this.instanceId}: Bypass: ${state !== 0 ? 'open' : 'closed'}`);
+      return this.bypassContactFor(state);
+    });
+  }
+
+  async handleGetBypassSwitch(mode: BypassMode): Promise<CharacteristicValue> {
+    return this.serveGet(async () => {
+      const control = await this.currentValue('bypassControl');
+      this.updateBypassCharacteristics(control);
+      return control === BYPASS_MODES[mode].value;
+    });
+  }
+
+  async handleSetBypassSwitch(mode: BypassMode, value: CharacteristicValue): Promise<void> {
+    await this.executeCharacteristicOperation(
+      async () => {
+        const current = await this.readDatapoint('bypassControl');
+
+        // Switching the active mode off hands the bypass back to the unit
+        if (!value && current !== BYPASS_MODES[mode].value) {
+          this.updateBypassCharacteristics(current);
+          return;
+        }
+
+        const target: BypassMode = value ? mode : 'automatic';
+        this.platform.log.info(`${this.instanceId}: Setting bypass to ${BYPASS_MODES[target].name}`);
+        await this.writeDatapoint('bypassControl', BYPASS_MODES[target].value);
+
+        // Give the damper actuator time to start moving before its position is read again
+        await this.sleep(1000);
+        this.clearDatapointCache('bypassState');
+
+        this.updateBypassCharacteristics(BYPASS_MODES[target].value);
+      },
+      20000,
+    );
+  }
+
+  async handleGetClimateState(): Promise<CharacteristicValue> {
+    return this.serveGet(async () => {
+      const regime = await this.currentValue('regime');
+      const state = regime === REGIMES.off.value ? HEATING_COOLING_STATES.idle : await this.readHeatingCoolingState();
+      return this.climateStateFor(regime, state);
+    });
+  }
+
+  async handleGetClimateTarget(): Promise<CharacteristicValue> {
+    return this.serveGet(async () => this.climateTargetFor(await this.currentValue('regime')));
+  }
+
+  async handleGetTemperatureSetpoint(): Promise<CharacteristicValue> {
+    return this.serveGet(async () => {
+      const value = await this.currentValue('temperatureSetpoint');
+      this.platform.log.debug(`${this.instanceId}: Temperature setpoint: ${value}°C`);
+      // HomeKit rejects values outside the configured range
+      return this.setpointFor(value);
+    });
+  }
+
+  async handleSetTemperatureSetpoint(value: CharacteristicValue): Promise<void> {
+    await this.executeCharacteristicOperation(
+      async () => {
+        const setpoint = this.setpointFor(value as number);
+        this.platform.log.info(`${this.instanceId}: Setting temperature setpoint to ${setpoint}°C`);
+        await this.writeDatapoint('temperatureSetpoint', setpoint);
+      },
+      20000,
+    );
+  }
+
+  async handleGetFilterChange(): Promise<CharacteristicValue> {
+    return this.serveGet(async () => {
+      const warning = await this.currentValue('filterWarning');
+      this.platform.log.debug(`${this.instanceId}: Filter warning: ${warning}`);
+      return this.filterChangeFor(warning);
+    });
+  }
+
+  async handleGetFilterLife(): Promise<CharacteristicValue> {
+    return this.serveGet(async () => {
+      const remainingDays = await this.currentValue('filterRemainingDays');
+      const level = this.filterLifeFor(remainingDays);
+      this.platform.log.debug(`${this.instanceId}: Filter life: ${level}% (${remainingDays} days remaining)`);
+      return level;
+    });
+  }
+
+  async handleResetFilter(): Promise<void> {
+    await this.executeCharacteristicOperation(
+      async () => {
+        this.platform.log.info(`${this.instanceId}: Resetting filter change indication`);
+        await this.writeDatapoint('filterReset', 1);
+
+        // Give the unit time to restart its filter counter before it is read again
+        await this.sleep(1000);
+        this.clearDatapointCache('filterWarning');
+        this.clearDatapointCache('filterRemainingDays');
+
+        this.filterService?.updateCharacteristic(
+          this.platform.Characteristic.FilterChangeIndication,
+          this.platform.Characteristic.FilterChangeIndication.FILTER_OK,
+        );
+      },
+    );
+  }
+
+  // **CONNECTION HEALTH AND MONITORING**
+
+  private updateConnectionHealth(success: boolean): void {
+    this.connectionHealth.totalOperations++;
+
+    if (success) {
+      this.connectionHealth.lastSuccessfulOperation = Date.now();
+      this.connectionHealth.consecutiveFailures = 0;
+    } else {
+      this.connectionHealth.consecutiveFailures++;
+    }
+
+    this.connectionHealth.successRate =
+      ((this.connectionHealth.totalOperations - this.connectionHealth.consecutiveFailures) /
+       this.connectionHealth.totalOperations) * 100;
+  }
+
+  private handleConnectionFailure(): void {
+    this.connectionState.isConnected = false;
+    this.clearCache();
+    // Values from before the failure would keep HomeKit showing a unit that no longer answers
+    this.snapshot.clear();
+
+    if (this.connectionHealth.consecutiveFailures >= 3) {
+      this.platform.log.warn(
+        `${this.instanceId}: Multiple connection failures detected. Success rate: ${this.connectionHealth.successRate.toFixed(1)}%`,
+      );
+    }
+
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(delay?: number): void {
+    this.clearReconnectTimeout();
+
+    if (this.isCleaningUp) {
+      return;
+    }
+
+    // Exponential backoff with jitter
+    const baseDelay = delay || this.connectionRetryBaseDelay;
+    const exponentialDelay = Math.min(baseDelay * Math.pow(2, this.connectionRetryCount), 60000);
+    const jitter = Math.random() * 1000; // Add up to 1s jitter
+    const reconnectDelay = exponentialDelay + jitter;
+
+    if (this.connectionRetryCount >= this.maxRetries) {
+      this.platform.log.error(
+        `${this.instanceId}: Max retry attempts reached. Waiting ${Math.round(reconnectDelay/1000)}s before next attempt.`,
+      );
+      this.connectionRetryCount = 0; // Reset for next cycle
+    }
+
+    const timeout = this.queue.defer(async () => {
+      this.reconnectTimeout = undefined;
+      this.timeoutRegistry.delete(timeout);
+
+      if (this.isCleaningUp) {
+        return;
+      }
+
+      try {
+        await this.connectModbusClient();
+        if (this.connectionState.isConnected) {
+          this.startHeartbeat();
+          this.startPolling(0);
+        }
+      } catch (error) {
+        this.platform.log.error(`${this.instanceId}: Reconnection failed:`, error);
+        if (!this.isCleaningUp) {
+          this.scheduleReconnect();
+        }
+      }
+    }, reconnectDelay);
+
+    this.reconnectTimeout = timeout;
+    this.timeoutRegistry.add(timeout);
+
+    this.platform.log.debug(`${this.instanceId}: Reconnection scheduled in ${Math.round(reconnectDelay)}ms`);
+  }
+
+  private clearReconnectTimeout(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.timeoutRegistry.delete(this.reconnectTimeout);
+      this.reconnectTimeout = undefined;
+    }
+  }
+
+  // **COMPREHENSIVE CLEANUP**
+
+  public async disconnect(): Promise<void> {
+    return this.cleanup();
+  }
+
+  public forceCleanup(): void {
+    this.cleanup().catch(error => {
+      this.platform.log.debug(`${this.instanceId}: Error during force cleanup:`, error);
+    });
+  }
+
+  private async cleanup(): Promise<void> {
+    if (this.isCleaningUp) {
+      return this.cleanupPromise;
+    }
+
+    this.isCleaningUp = true;
+    this.platform.log.debug(`${this.instanceId}: Starting cleanup...`);
+
+    this.cleanupPromise = this.doCleanup();
+    return this.cleanupPromise;
+  }
+
+  private async doCleanup(): Promise<void> {
+    try {
+      // Stop all timers
+      this.stopHeartbeat();
+      this.stopPolling();
+      this.clearReconnectTimeout();
+
+      // Clear all timeouts
+      this.timeoutRegistry.forEach(timeout => clearTimeout(timeout));
+      this.timeoutRegistry.clear();
+
+      // Clear batch timeout
+      if (this.batchTimeout) {
+        clearTimeout(this.batchTimeout);
+        this.batchTimeout = undefined;
+      }
+
+      // Clear queues and cache
+      this.queue.clear(new Error('Accessory is shutting down'));
+      this.pendingReads.clear();
+      this.clearCache();
+      this.snapshot.clear();
+
+      // Wait for the operation in progress to complete (with timeout)
+      await Promise.race([
+        this.queue.idle(),
+        new Promise(resolve => setTimeout(resolve, 5000)), // 5s timeout
+      ]);
+
+      // Close connection
+      await this.forceCloseConnection();
+
+      // Unregister instance
+      HRUAccessory.activeConnections.delete(this.connectionKey);
+      HRUAccessory.instanceCount = Math.max(0, HRUAccessory.instanceCount - 1);
+
+      // Log final stats
+      this.platform.log.info(
+        `${this.instanceId}: Cleanup completed. Final stats - Operations: ${this.connectionHealth.totalOperations}, ` +
+        `Success rate: ${this.connectionHealth.successRate.toFixed(1)}%`,
+      );
+
+    } catch (error) {
+      this.platform.log.debug(`${this.instanceId}: Error during cleanup:`, error);
+    }
+  }
+
+  // **REST API AND MQTT**
+
+  /**
+   * Current state of the unit; polled values come from the snapshot, the rest is read through the queue
+   */
+  public async getStatus(): Promise<DeviceStatus> {
+    const regime = await this.currentValue('regime');
+    const speed = await this.currentValue('speed');
+    const { timestamp, values } = this.getSnapshot();
+    const override = this.activeOverride;
+
+    return {
+      id: this.device.deviceId,
+      name: this.device.name,
+      model: this.device.model,
+      address: this.device.address,
+      connected: this.connectionState.isConnected,
+      regime: getRegimeName(regime) ?? null,
+      regimeValue: regime,
+      on: regime !== REGIMES.off.value,
+      speed,
+      speedUnit: this.device.speedRange.unit,
+      speedPercent: this.speedToPercent(speed),
+      override: override ? { mode: override.mode, endsAt: override.endsAt } : null,
+      activeFaults: this.getActiveFaults().map(fault => `${fault.severity}: ${fault.description}`),
+      values,
+      lastPoll: timestamp,
+    };
+  }
+
+  public onStateChange(listener: () => void): void {
+    this.stateListeners.push(listener);
+  }
+
+  private notifyStateChange(): void {
+    this.stateListeners.forEach(listener => listener());
+  }
+
+  public async setPower(on: boolean): Promise<void> {
+    await this.executeWithRetry(() => this.switchPower(on));
+  }
+
+  public async setRegime(regime: RegimeName): Promise<void> {
+    await this.executeWithRetry(() => this.writeRegime(REGIMES[regime].value));
+  }
+
+  /**
+   * Set the speed as a HomeKit percent; returns the percent actually applied
+   */
+  public async setSpeed(percent: number): Promise<number> {
+    return this.executeWithRetry(async () => {
+      const applied = await this.writeSpeed(percent);
+      this.service.updateCharacteristic(this.platform.Characteristic.RotationSpeed, applied);
+      return applied;
+    });
+  }
+
+  /**
+   * Start a configured timed override, or end the running one with null
+   */
+  public async setOverride(mode: OverrideMode | null): Promise<void> {
+    const override = mode ? this.device.overrides.find(candidate => candidate.mode === mode) : undefined;
+    if (mode && !override) {
+      throw new Error(`Override ${mode} is not configured`);
+    }
+    await this.executeWithRetry(() => override ? this.startOverride(override) : this.endOverride());
+  }
+
+  /**
+   * Read raw registers through the operation queue, for the register scanner. Exception answers such as an
+   * unknown address go back to the caller instead of being handled as a lost connection.
+   */
+  public async readRegisters(type: RegisterType, address: number, count: number = 1): Promise<number[]> {
+    const result = await this.executeWithRetry(async (): Promise<{ data: number[] } | { error: unknown }> => {
+      if (!this.client) {
+        throw new Error('No client available');
+      }
+      try {
+        const response = type === 'input'
+          ? await this.client.readInputRegisters(address, count)
+          : await this.client.readHoldingRegisters(address, count);
+        return { data: response.data };
+      } catch (error) {
+        const code = modbusExceptionCode(error);
+        if (code === undefined || code === SLAVE_DEVICE_BUSY) {
+          throw error;
+        }
+        return { error };
+      }
+    });
+
+    if ('error' in result) {
+      throw result.error;
+    }
+    return result.data;
+  }
+
+  // **DIAGNOSTIC METHODS**
+
+  public getConnectionHealth(): ConnectionHealth {
+    return { ...this.connectionHealth };
+  }
+
+  public getCacheStats(): { size: number; keys: string[] } {
+    return {
+      size: this.cache.size,
+      keys: Array.from(this.cache.keys()),
+    };
+  }
+
+  public getOperationStats(): { queueLength: number; deviceBusyCount: number; deviceBusyTotal: number } {
+    return {
+      queueLength: this.queue.length,
+      deviceBusyCount: this.deviceBusyCount,
+      deviceBusyTotal: this.deviceBusyTotal,
+    };
+  }
+
+  /**
+   * Decoded values from the last poll and when that poll completed (0 before the first one)
+   */
+  public getSnapshot(): { timestamp: number; values: { [K in DatapointName]?: number } } {
+    const values: { [K in DatapointName]?: number } = {};
+    this.snapshot.forEach((value, datapoint) => {
+      values[datapoint] = value;
+    });
+    return { timestamp: this.snapshotTime, values };
+  }
+
+  public getActiveFaults(): ActiveFault[] {
+    return Array.from(this.activeFaults.values());
+  }
+
+  public getConnectionState(): ConnectionState {
+    return { ...this.connectionState };
+  }
+
+  public getDeviceSettings(): HRUDeviceSettings {
+    return { ...this.device };
+  }
+
+  public getInstanceInfo(): { id: string; connectionKey: string; isCleaningUp: boolean } {
+    return {
+      id: this.instanceId,
+      connectionKey: this.connectionKey,
+      isCleaningUp: this.isCleaningUp,
+    };
+  }
+
+  // **STATIC DIAGNOSTIC METHODS**
+
+  public static getInstanceCount(): number {
+    return HRUAccessory.instanceCount;
+  }
+
+  public static getActiveConnections(): string[] {
+    return Array.from(HRUAccessory.activeConnections.keys());
+  }
+
+  public static async cleanupAllInstances(): Promise<void> {
+    const instances = Array.from(HRUAccessory.activeConnections.values());
+    await Promise.all(instances.map(instance => instance.cleanup()));
+  }
+
+  // **UTILITY METHODS**
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+// **ASYNC MUTEX FOR SYNCHRONIZATION**
+class AsyncMutex {
+  private locked: boolean = false;
+  private waitQueue: Array<() => void> = [];
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    while (this.locked) {
+      await new Promise<void>(resolve => this.waitQueue.push(resolve));
+    }
+
+    this.locked = true;
+    try {
+      return await operation();
+    } finally {
+      this.locked = false;
+      const next = this.waitQueue.shift();
+      if (next) {
+        next();
+      }
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { DatapointName, RegisterMap, RegisterType } from './profiles';
+
+/**
+ * Grouping of datapoints into block reads for the background poller.
+ *
+ * Only registers at consecutive addresses are merged: a read spanning an address the
+ * controller does not define is answered with exception 2, so gaps are never read across.
+ */
+
+// Largest number of registers a single Modbus read may request
+const MAX_BLOCK_LENGTH = 125;
+
+export interface RegisterBlock {
+  type: RegisterType;
+  address: number;
+  length: number;
+  // Position of each datapoint within the block
+  datapoints: Array<{ datapoint: DatapointName; offset: number }>;
+}
+
+/**
+ * Plan the fewest contiguous reads covering the given datapoints
+ */
+export function planBlockReads(registers: RegisterMap, datapoints: DatapointName[]): RegisterBlock[] {
+  const entries = datapoints
+    .filter(datapoint => registers[datapoint] !== undefined)
+    .map(datapoint => ({ datapoint, type: registers[datapoint]!.type, address: registers[datapoint]!.address }))
+    .sort((a, b) => a.type.localeCompare(b.type) || a.address - b.address);
+
+  const blocks: RegisterBlock[] = [];
+  for (const entry of entries) {
+    const last = blocks[blocks.length - 1];
+    const contiguous = last !== undefined &&
+      last.type === entry.type &&
+      entry.address <= last.address + last.length &&
+      entry.address - last.address < MAX_BLOCK_LENGTH;
+
+    if (contiguous) {
+      last.length = Math.max(last.length, entry.address - last.address + 1);
+      last.datapoints.push({ datapoint: entry.datapoint, offset: entry.address - last.address });
+    } else {
+      blocks.push({
+        type: entry.type,
+        address: entry.address,
+        length: 1,
+        datapoints: [{ datapoint: entry.datapoint, offset: 0 }],
+      });
+    }
+  }
+
+  return blocks;
+}
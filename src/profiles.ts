@@ -0,0 +1,317 @@
+/**
+ * Modbus register maps for supported ATREA controllers.
+ *
+ * Addresses are zero-based protocol addresses as used by modbus-serial.
+ * Temperatures are transferred as signed 16-bit values in tenths of °C.
+ */
+
+export type RegisterType = 'holding' | 'input';
+
+export interface RegisterDefinition {
+  address: number;
+  type: RegisterType;
+  scale?: number;
+  signed?: boolean;
+  writable?: boolean;
+  unit?: string;
+  description?: string;
+}
+
+export type DatapointName =
+  | 'regime'
+  | 'speed'
+  | 'outdoorTemperature'
+  | 'supplyTemperature'
+  | 'extractTemperature'
+  | 'exhaustTemperature'
+  | 'indoorTemperature'
+  | 'analogInput1'
+  | 'analogInput2'
+  | 'humidity'
+  | 'alarms'
+  | 'warnings'
+  | 'filterWarning'
+  | 'filterRemainingDays'
+  | 'filterReset'
+  | 'bypassState'
+  | 'bypassControl'
+  | 'temperatureSetpoint'
+  | 'heatingCoolingState'
+  | 'controllerType'
+  | 'firmwareVersion';
+
+export type RegisterMap = { [K in DatapointName]?: RegisterDefinition };
+
+export type HRUModel = 'generic' | 'rd5' | 'duplex-ec5';
+
+export interface FaultDefinition {
+  id: string;
+  description: string;
+}
+
+/**
+ * Meaning of individual bits in an alarm or warning bitfield, keyed by bit number
+ */
+export type FaultTable = Record<number, FaultDefinition>;
+
+export interface ModelProfile {
+  id: HRUModel;
+  name: string;
+  datapoints: RegisterMap;
+  alarmBits?: FaultTable;
+  warningBits?: FaultTable;
+  // Codes the controller reports in controllerType, used by the scanner to tell profiles with equal matches apart
+  controllerTypes?: number[];
+}
+
+export const DATAPOINT_NAMES: DatapointName[] = [
+  'regime',
+  'speed',
+  'outdoorTemperature',
+  'supplyTemperature',
+  'extractTemperature',
+  'exhaustTemperature',
+  'indoorTemperature',
+  'analogInput1',
+  'analogInput2',
+  'humidity',
+  'alarms',
+  'warnings',
+  'filterWarning',
+  'filterRemainingDays',
+  'filterReset',
+  'bypassState',
+  'bypassControl',
+  'temperatureSetpoint',
+  'heatingCoolingState',
+  'controllerType',
+  'firmwareVersion',
+];
+
+const temperature = (address: number, description: string): RegisterDefinition => ({
+  address,
+  type: 'input',
+  scale: 0.1,
+  signed: true,
+  unit: '°C',
+  description,
+});
+
+// Datapoints shared by the RD5 controller family (RD5, nRD5, aM and Duplex units built on them)
+const RD5_DATAPOINTS: RegisterMap = {
+  outdoorTemperature: temperature(10211, 'Outdoor air temperature (T-ODA)'),
+  supplyTemperature: temperature(10212, 'Supply air temperature (T-SUP)'),
+  extractTemperature: temperature(10213, 'Extract air temperature (T-ETA)'),
+  exhaustTemperature: temperature(10214, 'Exhaust air temperature (T-EHA)'),
+  indoorTemperature: temperature(10215, 'Indoor air temperature (T-IDA)'),
+  analogInput1: { address: 10216, type: 'input', unit: 'mV', description: 'Analog input IN1 (0-10 V)' },
+  analogInput2: { address: 10217, type: 'input', unit: 'mV', description: 'Analog input IN2 (0-10 V)' },
+  humidity: { address: 10218, type: 'input', unit: '%', description: 'Relative humidity (extract air probe)' },
+  alarms: { address: 10300, type: 'input', description: 'Active alarms bitfield' },
+  warnings: { address: 10301, type: 'input', description: 'Active warnings bitfield' },
+  filterWarning: { address: 10310, type: 'input', description: 'Filter change required (0/1)' },
+  filterRemainingDays: { address: 10311, type: 'input', unit: 'd', description: 'Days until filter change' },
+  filterReset: { address: 10710, type: 'holding', writable: true, description: 'Write 1 to reset filter counter' },
+  bypassState: { address: 10320, type: 'input', description: 'Bypass damper position (0 = closed, 1 = open)' },
+  bypassControl: {
+    address: 10720,
+    type: 'holding',
+    writable: true,
+    description: 'Bypass damper control (0 = automatic, 1 = open, 2 = closed)',
+  },
+  temperatureSetpoint: {
+    address: 10703,
+    type: 'holding',
+    scale: 0.1,
+    signed: true,
+    writable: true,
+    unit: '°C',
+    description: 'Requested temperature (supply or indoor air, per controller setting)',
+  },
+  heatingCoolingState: {
+    address: 10330,
+    type: 'input',
+    description: 'Temperature control stage (0 = idle, 1 = heating, 2 = cooling)',
+  },
+  // Identification, read by the register scanner
+  controllerType: { address: 10000, type: 'input', description: 'Controller type code' },
+  firmwareVersion: { address: 10001, type: 'input', description: 'Controller firmware version' },
+};
+
+const RD5_ALARM_BITS: FaultTable = {
+  0: { id: 'frostProtection', description: 'Heat exchanger frost protection' },
+  1: { id: 'supplyFan', description: 'Supply fan failure' },
+  2: { id: 'extractFan', description: 'Extract fan failure' },
+  3: { id: 'outdoorSensor', description: 'Outdoor temperature sensor failure (T-ODA)' },
+  4: { id: 'supplySensor', description: 'Supply temperature sensor failure (T-SUP)' },
+  5: { id: 'extractSensor', description: 'Extract temperature sensor failure (T-ETA)' },
+  6: { id: 'exhaustSensor', description: 'Exhaust temperature sensor failure (T-EHA)' },
+  7: { id: 'indoorSensor', description: 'Indoor temperature sensor failure (T-IDA)' },
+  8: { id: 'heaterFrost', description: 'Water heater frost protection' },
+  9: { id: 'heaterOverheat', description: 'Electric heater overheated' },
+  10: { id: 'externalStop', description: 'External stop or fire alarm input' },
+  11: { id: 'communication', description: 'Controller communication failure' },
+};
+
+const RD5_WARNING_BITS: FaultTable = {
+  0: { id: 'filter', description: 'Filters need replacing' },
+  1: { id: 'exchangerIcing', description: 'Heat exchanger icing, defrosting' },
+  2: { id: 'lowSupplyTemperature', description: 'Supply air temperature too low' },
+  3: { id: 'bypass', description: 'Bypass damper not responding' },
+  4: { id: 'analogInput', description: 'Analog input out of range' },
+  5: { id: 'clock', description: 'Controller clock not set' },
+};
+
+const regime = (address: number): RegisterDefinition => ({
+  address,
+  type: 'holding',
+  writable: true,
+  description: 'Operating regime',
+});
+
+const speed = (address: number): RegisterDefinition => ({
+  address,
+  type: 'holding',
+  writable: true,
+  unit: '%',
+  description: 'Requested ventilation power',
+});
+
+export const MODEL_PROFILES: Record<HRUModel, ModelProfile> = {
+  // Register addresses of the first plugin versions
+  'generic': {
+    id: 'generic',
+    name: 'Generic ATREA unit',
+    datapoints: {
+      regime: regime(1001),
+      speed: speed(1000),
+    },
+  },
+  // RD5, nRD5 and aM controllers publish the same register map, so one profile serves all three
+  'rd5': {
+    id: 'rd5',
+    name: 'ATREA RD5 / nRD5 / aM',
+    datapoints: {
+      ...RD5_DATAPOINTS,
+      regime: regime(1000),
+      speed: speed(1001),
+    },
+    alarmBits: RD5_ALARM_BITS,
+    warningBits: RD5_WARNING_BITS,
+    controllerTypes: [5],
+  },
+  // The controller type code of these units is not known yet, so they are recognized by their registers alone
+  'duplex-ec5': {
+    id: 'duplex-ec5',
+    name: 'ATREA DUPLEX EC5/ECV5',
+    datapoints: {
+      ...RD5_DATAPOINTS,
+      regime: regime(1001),
+      speed: speed(1004),
+    },
+    alarmBits: RD5_ALARM_BITS,
+    warningBits: RD5_WARNING_BITS,
+  },
+};
+
+export type RegimeName =
+  | 'off'
+  | 'automatic'
+  | 'ventilation'
+  | 'circulationVentilation'
+  | 'circulation'
+  | 'nightPrecooling'
+  | 'disbalance'
+  | 'overpressure';
+
+/**
+ * Values of the regime register as defined by the ATREA controllers
+ */
+export const REGIMES: Record<RegimeName, { value: number; name: string }> = {
+  off: { value: 0, name: 'Off' },
+  automatic: { value: 1, name: 'Automatic' },
+  ventilation: { value: 2, name: 'Ventilation' },
+  circulationVentilation: { value: 3, name: 'Circulation + Ventilation' },
+  circulation: { value: 4, name: 'Circulation' },
+  nightPrecooling: { value: 5, name: 'Night Precooling' },
+  disbalance: { value: 6, name: 'Disbalance' },
+  overpressure: { value: 7, name: 'Overpressure' },
+};
+
+export const DEFAULT_ON_REGIME: RegimeName = 'ventilation';
+
+export type BypassMode = 'automatic' | 'open' | 'closed';
+
+/**
+ * Values of the bypass control register as defined by the ATREA controllers
+ */
+export const BYPASS_MODES: Record<BypassMode, { value: number; name: string }> = {
+  automatic: { value: 0, name: 'Automatic' },
+  open: { value: 1, name: 'Open' },
+  closed: { value: 2, name: 'Closed' },
+};
+
+/**
+ * Values of the heating/cooling state register as reported by the ATREA controllers
+ */
+export const HEATING_COOLING_STATES = {
+  idle: 0,
+  heating: 1,
+  cooling: 2,
+};
+
+export function isKnownRegime(name: string): name is RegimeName {
+  return Object.prototype.hasOwnProperty.call(REGIMES, name);
+}
+
+export function getRegimeName(value: number): RegimeName | undefined {
+  return (Object.keys(REGIMES) as RegimeName[]).find(name => REGIMES[name].value === value);
+}
+
+export const DEFAULT_MODEL: HRUModel = 'generic';
+
+export function isKnownModel(model: string): model is HRUModel {
+  return Object.prototype.hasOwnProperty.call(MODEL_PROFILES, model);
+}
+
+export function getModelProfile(model?: string): ModelProfile {
+  return model && isKnownModel(model) ? MODEL_PROFILES[model] : MODEL_PROFILES[DEFAULT_MODEL];
+}
+
+/**
+ * List the faults whose bits are set in a bitfield; bits missing from the table are reported as unknown
+ */
+export function decodeFaults(value: number, table: FaultTable = {}): FaultDefinition[] {
+  const faults: FaultDefinition[] = [];
+  for (let bit = 0; bit < 16; bit++) {
+    if (value & (1 << bit)) {
+      faults.push(table[bit] || { id: `bit${bit}`, description: `Unknown fault (bit ${bit})` });
+    }
+  }
+  return faults;
+}
+
+/**
+ * Convert a raw 16-bit register value into engineering units
+ */
+export function decodeRegisterValue(raw: number, definition: RegisterDefinition): number {
+  let value = raw;
+  if (definition.signed && value > 0x7fff) {
+    value -= 0x10000;
+  }
+  if (definition.scale !== undefined) {
+    value = Math.round(value * definition.scale * 1000) / 1000;
+  }
+  return value;
+}
+
+/**
+ * Convert a value in engineering units into a raw 16-bit register value
+ */
+export function encodeRegisterValue(value: number, definition: RegisterDefinition): number {
+  let raw = definition.scale !== undefined ? Math.round(value / definition.scale) : Math.round(value);
+  if (definition.signed && raw < 0) {
+    raw += 0x10000;
+  }
+  return raw & 0xffff;
+}
@@ -0,0 +1,242 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { HRUPlatform, RestApiSettings } from './platform';
+import { HRUAccessory } from './platformAccessory';
+import { renderMetrics } from './metrics';
+import { REGIMES, isKnownRegime } from './profiles';
+
+/**
+ * Embedded HTTP server exposing unit state and control as JSON, for scripts and dashboards.
+ *
+ * Reads and writes go through each accessory's operation queue, so the API shares the single
+ * Modbus connection to a unit with HomeKit and never opens a second one. Prometheus metrics
+ * are served on /metrics next to the JSON API.
+ *
+ * Browsers are only let in (CORS) when a token is set: without one, any web page open on the
+ * Homebridge host could otherwise control the unit through the API on 127.0.0.1. For the same
+ * reason request bodies must be declared as JSON, which a plain HTML form cannot do.
+ */
+
+// Request bodies are small JSON objects
+const MAX_BODY_BYTES = 4096;
+
+class ApiError extends Error {
+  constructor(public readonly statusCode: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class RestApiServer {
+  private server?: Server;
+
+  constructor(
+    private readonly platform: HRUPlatform,
+    private readonly settings: RestApiSettings,
+  ) {}
+
+  start(): void {
+    const { port, bindAddress } = this.settings;
+    const server = createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        this.platform.log.debug('REST API: Failed to answer request:', error);
+      });
+    });
+
+    server.on('error', error => {
+      this.platform.log.error(`❌ REST API: ${error.message}`);
+    });
+    server.listen(port, bindAddress, () => {
+      this.platform.log.info(`🌐 REST API listening on http://${bindAddress}:${port}/api`);
+    });
+
+    this.server = server;
+  }
+
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      server.close(() => resolve());
+      // Dashboards keep connections alive; drop them so shutdown is not held up
+      server.closeAllConnections();
+    });
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const method = request.method || 'GET';
+    const url = new URL(request.url || '/', 'http://localhost');
+
+    // CORS preflight from a dashboard served elsewhere; the token is checked on the actual request, and
+    // without a token the answer carries no CORS headers, so the browser does not send it
+    if (method === 'OPTIONS') {
+      this.send(response, 204);
+      return;
+    }
+
+    try {
+      this.authorize(request);
+      const segments = url.pathname.split('/').filter(segment => segment !== '');
+      if (segments.length === 1 && segments[0] === 'metrics') {
+        this.expectMethod(method, 'GET');
+        this.send(response, 200, renderMetrics(this.platform), 'text/plain; version=0.0.4; charset=utf-8');
+        return;
+      }
+      if (segments[0] !== 'api') {
+        throw new ApiError(404, 'Not found');
+      }
+      this.send(response, 200, await this.route(method, segments.slice(1), request));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        this.send(response, error.statusCode, { error: error.message });
+        return;
+      }
+
+      // Anything else comes from talking to the unit
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      this.platform.log.warn(`⚠️  REST API: ${method} ${url.pathname} failed: ${errorMsg}`);
+      this.send(response, 503, { error: errorMsg });
+    }
+  }
+
+  private authorize(request: IncomingMessage): void {
+    const { token } = this.settings;
+    if (!token) {
+      return;
+    }
+
+    const expected = Buffer.from(`Bearer ${token}`);
+    const supplied = Buffer.from(request.headers.authorization || '');
+    if (supplied.length !== expected.length || !timingSafeEqual(supplied, expected)) {
+      throw new ApiError(401, 'Missing or invalid token');
+    }
+  }
+
+  private async route(method: string, path: string[], request: IncomingMessage): Promise<unknown> {
+    const [resource, id, action] = path;
+
+    if (path.length === 1 && resource === 'stats') {
+      this.expectMethod(method, 'GET');
+      return this.platform.getPlatformStats();
+    }
+
+    if (path.length === 1 && resource === 'diagnostics') {
+      this.expectMethod(method, 'GET');
+      return this.platform.getCurrentDiagnostics();
+    }
+
+    if (resource !== 'devices' || path.length > 3) {
+      throw new ApiError(404, 'Not found');
+    }
+
+    if (path.length === 1) {
+      this.expectMethod(method, 'GET');
+      return Promise.all(this.platform.getAccessories().map(accessory => accessory.getStatus()));
+    }
+
+    const accessory = this.findAccessory(id);
+
+    if (path.length === 2) {
+      this.expectMethod(method, 'GET');
+      return accessory.getStatus();
+    }
+
+    switch (action) {
+      case 'regime': {
+        this.expectMethod(method, 'POST');
+        const { regime } = await this.readBody(request);
+        if (typeof regime !== 'string' || !isKnownRegime(regime)) {
+          throw new ApiError(400, `Unknown regime "${regime}". Must be one of ${Object.keys(REGIMES).join(', ')}`);
+        }
+        this.platform.log.info(`${accessory.getDeviceSettings().name}: REST API sets regime ${REGIMES[regime].name}`);
+        await accessory.setRegime(regime);
+        return accessory.getStatus();
+      }
+      case 'speed': {
+        this.expectMethod(method, 'POST');
+        const { speed } = await this.readBody(request);
+        if (typeof speed !== 'number' || !Number.isFinite(speed) || speed < 0 || speed > 100) {
+          throw new ApiError(400, 'Speed must be a number of percent 0-100');
+        }
+        this.platform.log.info(`${accessory.getDeviceSettings().name}: REST API sets speed ${speed}%`);
+        await accessory.setSpeed(speed);
+        return accessory.getStatus();
+      }
+      default:
+        throw new ApiError(404, 'Not found');
+    }
+  }
+
+  private findAccessory(id: string): HRUAccessory {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(id);
+    } catch {
+      throw new ApiError(400, `Malformed device id "${id}"`);
+    }
+
+    const accessory = this.platform.findAccessory(decoded);
+    if (!accessory) {
+      throw new ApiError(404, `Unknown device "${id}"`);
+    }
+    return accessory;
+  }
+
+  private expectMethod(method: string, expected: string): void {
+    if (method !== expected) {
+      throw new ApiError(405, `Method ${method} not allowed, use ${expected}`);
+    }
+  }
+
+  private readBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+    const contentType = (request.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    if (contentType !== 'application/json') {
+      return Promise.reject(new ApiError(415, 'Request body must be sent as Content-Type: application/json'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      request.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new ApiError(413, 'Request body too large'));
+          request.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      request.on('error', reject);
+      request.on('end', () => {
+        let body: unknown;
+        try {
+          body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+        } catch (error) {
+          body = undefined;
+        }
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+          reject(new ApiError(400, 'Request body must be a JSON object'));
+          return;
+        }
+        resolve(body as Record<string, unknown>);
+      });
+    });
+  }
+
+  private send(response: ServerResponse, statusCode: number, body?: unknown, contentType?: string): void {
+    response.writeHead(statusCode, {
+      'Content-Type': contentType || 'application/json; charset=utf-8',
+      ...(this.settings.token ? {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      } : {}),
+    });
+    response.end(body === undefined || typeof body === 'string' ? body : JSON.stringify(body));
+  }
+}
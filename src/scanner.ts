@@ -0,0 +1,321 @@
+import { HRUDeviceConfig } from './configSchema';
+import { ILLEGAL_DATA_ADDRESS, SLAVE_DEVICE_BUSY, modbusExceptionCode } from './modbusTransport';
+import {
+  DATAPOINT_NAMES, DatapointName, HRUModel, MODEL_PROFILES, RegisterDefinition, RegisterType, decodeRegisterValue, getRegimeName,
+} from './profiles';
+
+/**
+ * Register scanner fingerprinting a unit and proposing a model profile.
+ *
+ * Probes the identification registers and every datapoint register known from the model profiles,
+ * optionally followed by whole register ranges, and ranks the profiles by how many of their
+ * registers answer with plausible values. All reads go through a RegisterReader that applies the
+ * operation throttle and device busy backoff, so a scan is slow but cannot overload the unit.
+ */
+
+// Largest block read in a range scan; blocks answered with exception 2 are split in halves
+const MAX_BLOCK_LENGTH = 16;
+
+// Values a working unit can report for each datapoint, after decoding
+const PLAUSIBLE_VALUES: Record<DatapointName, (value: number) => boolean> = {
+  regime: value => getRegimeName(value) !== undefined,
+  speed: value => value >= 0 && value <= 1000,
+  outdoorTemperature: value => value >= -50 && value <= 90,
+  supplyTemperature: value => value >= -50 && value <= 90,
+  extractTemperature: value => value >= -50 && value <= 90,
+  exhaustTemperature: value => value >= -50 && value <= 90,
+  indoorTemperature: value => value >= -50 && value <= 90,
+  analogInput1: value => value >= 0 && value <= 10000,
+  analogInput2: value => value >= 0 && value <= 10000,
+  humidity: value => value >= 0 && value <= 100,
+  alarms: () => true,
+  warnings: () => true,
+  filterWarning: value => value === 0 || value === 1,
+  filterRemainingDays: value => value >= 0 && value <= 3650,
+  filterReset: value => value === 0 || value === 1,
+  bypassState: value => value === 0 || value === 1,
+  bypassControl: value => value >= 0 && value <= 2,
+  temperatureSetpoint: value => value >= 5 && value <= 50,
+  heatingCoolingState: value => value >= 0 && value <= 2,
+  controllerType: () => true,
+  firmwareVersion: () => true,
+};
+
+/**
+ * Throttled access to the unit's registers: a ModbusSession, or an accessory's operation queue
+ */
+export interface RegisterReader {
+  read(type: RegisterType, address: number, count?: number): Promise<number[]>;
+  readonly deviceBusyTotal?: number;
+}
+
+export interface ScanRange {
+  type: RegisterType;
+  start: number;
+  count: number;
+}
+
+export interface ScanOptions {
+  // Register ranges scanned in addition to the known datapoint registers
+  ranges?: ScanRange[];
+  // Probe the identification and datapoint registers of all profiles (default true)
+  knownRegisters?: boolean;
+  // Called after each probed register, e.g. for a progress indicator
+  onProbe?: (probe: RegisterProbe) => void;
+}
+
+/**
+ * Outcome of reading one register: a value, or the Modbus exception the unit answered with
+ */
+export interface RegisterProbe {
+  type: RegisterType;
+  address: number;
+  status: 'ok' | 'illegal' | 'busy' | 'exception';
+  raw?: number;
+  code?: number;
+  // Datapoints any model profile places at this register
+  datapoints: DatapointName[];
+}
+
+export interface ProfileMatch {
+  model: HRUModel;
+  name: string;
+  // Datapoints answering with plausible values, with values out of range, and not answering at all
+  matched: DatapointName[];
+  implausible: DatapointName[];
+  missing: DatapointName[];
+  // Whether the reported controller type belongs to the profile; unknown when either side has no code
+  identified?: boolean;
+}
+
+export interface ScanReport {
+  startedAt: string;
+  duration: number;
+  connection: string;
+  identification: { controllerType?: number; firmwareVersion?: number };
+  probes: RegisterProbe[];
+  candidates: ProfileMatch[];
+  // Suggested device configuration; missing when no plausible regime and speed registers were found
+  proposal?: HRUDeviceConfig;
+  deviceBusy?: number;
+}
+
+const probeKey = (type: RegisterType, address: number): string => `${type}:${address}`;
+
+function datapointsAt(type: RegisterType, address: number): DatapointName[] {
+  const datapoints = new Set<DatapointName>();
+  Object.values(MODEL_PROFILES).forEach(profile => {
+    DATAPOINT_NAMES.forEach(datapoint => {
+      const definition = profile.datapoints[datapoint];
+      if (definition?.type === type && definition.address === address) {
+        datapoints.add(datapoint);
+      }
+    });
+  });
+  return Array.from(datapoints);
+}
+
+export class RegisterScanner {
+  private readonly probes = new Map<string, RegisterProbe>();
+
+  constructor(
+    private readonly reader: RegisterReader,
+    private readonly connection: string,
+  ) {}
+
+  async scan(options: ScanOptions = {}): Promise<ScanReport> {
+    const startTime = Date.now();
+    this.probes.clear();
+
+    // Identification first, then every register a profile knows, grouped by register type and address
+    const datapoints: DatapointName[] = options.knownRegisters === false ? [] : ['controllerType', 'firmwareVersion', ...DATAPOINT_NAMES];
+    const known = new Map<string, RegisterDefinition>();
+    datapoints.forEach(datapoint => {
+      Object.values(MODEL_PROFILES).forEach(profile => {
+        const definition = profile.datapoints[datapoint];
+        if (definition) {
+          known.set(probeKey(definition.type, definition.address), definition);
+        }
+      });
+    });
+    for (const definition of known.values()) {
+      await this.probeBlock(definition.type, definition.address, 1, options);
+    }
+
+    for (const range of options.ranges || []) {
+      for (let address = range.start; address < range.start + range.count; address += MAX_BLOCK_LENGTH) {
+        const length = Math.min(MAX_BLOCK_LENGTH, range.start + range.count - address);
+        await this.probeBlock(range.type, address, length, options);
+      }
+    }
+
+    const controllerType = this.rawValue(MODEL_PROFILES.rd5.datapoints.controllerType!);
+    const candidates = this.rankProfiles(controllerType);
+    return {
+      startedAt: new Date(startTime).toISOString(),
+      duration: Date.now() - startTime,
+      connection: this.connection,
+      identification: {
+        controllerType,
+        firmwareVersion: this.rawValue(MODEL_PROFILES.rd5.datapoints.firmwareVersion!),
+      },
+      probes: Array.from(this.probes.values()).sort((a, b) => a.type.localeCompare(b.type) || a.address - b.address),
+      candidates,
+      proposal: this.propose(candidates),
+      deviceBusy: this.reader.deviceBusyTotal,
+    };
+  }
+
+  /**
+   * Read a block of registers; a block refused with exception 2 is split until the missing registers are found
+   */
+  private async probeBlock(type: RegisterType, address: number, length: number, options: ScanOptions): Promise<void> {
+    if (length === 1 && this.probes.has(probeKey(type, address))) {
+      return;
+    }
+
+    const record = (probe: RegisterProbe) => {
+      this.probes.set(probeKey(probe.type, probe.address), probe);
+      options.onProbe?.(probe);
+    };
+
+    try {
+      const data = await this.reader.read(type, address, length);
+      data.forEach((raw, offset) => {
+        record({ type, address: address + offset, status: 'ok', raw, datapoints: datapointsAt(type, address + offset) });
+      });
+    } catch (error) {
+      const code = modbusExceptionCode(error);
+      // Anything but an exception answer means the connection failed; the scan cannot go on
+      if (code === undefined) {
+        throw error;
+      }
+
+      if (code === ILLEGAL_DATA_ADDRESS && length > 1) {
+        const half = Math.ceil(length / 2);
+        await this.probeBlock(type, address, half, options);
+        await this.probeBlock(type, address + half, length - half, options);
+        return;
+      }
+
+      const status = code === ILLEGAL_DATA_ADDRESS ? 'illegal' : code === SLAVE_DEVICE_BUSY ? 'busy' : 'exception';
+      for (let offset = 0; offset < length; offset++) {
+        record({ type, address: address + offset, status, code, datapoints: datapointsAt(type, address + offset) });
+      }
+    }
+  }
+
+  private rawValue(definition: RegisterDefinition): number | undefined {
+    return this.probes.get(probeKey(definition.type, definition.address))?.raw;
+  }
+
+  /**
+   * Profiles that have a working regime and speed register, best match first; among equal matches the profile
+   * of the reported controller type comes first and profiles of another controller type come last
+   */
+  private rankProfiles(controllerType: number | undefined): ProfileMatch[] {
+    const matches: ProfileMatch[] = [];
+
+    Object.values(MODEL_PROFILES).forEach(profile => {
+      const match: ProfileMatch = {
+        model: profile.id,
+        name: profile.name,
+        matched: [],
+        implausible: [],
+        missing: [],
+        identified: controllerType !== undefined && profile.controllerTypes ? profile.controllerTypes.includes(controllerType) : undefined,
+      };
+      DATAPOINT_NAMES.forEach(datapoint => {
+        const definition = profile.datapoints[datapoint];
+        if (!definition) {
+          return;
+        }
+        const raw = this.rawValue(definition);
+        if (raw === undefined) {
+          match.missing.push(datapoint);
+        } else if (PLAUSIBLE_VALUES[datapoint](decodeRegisterValue(raw, definition))) {
+          match.matched.push(datapoint);
+        } else {
+          match.implausible.push(datapoint);
+        }
+      });
+
+      // Regime and speed are the least the plugin needs
+      if (match.matched.includes('regime') && match.matched.includes('speed')) {
+        matches.push(match);
+      }
+    });
+
+    // Stable sort keeps profile order among equals, so a remaining tie goes to the simpler profile
+    const identification = (match: ProfileMatch): number => match.identified === undefined ? 0 : match.identified ? 1 : -1;
+    return matches.sort((a, b) => b.matched.length - a.matched.length || identification(b) - identification(a));
+  }
+
+  /**
+   * Configuration for the best matching profile; without one, the generic profile with the regime and speed
+   * registers of whichever profiles answered plausibly
+   */
+  private propose(candidates: ProfileMatch[]): HRUDeviceConfig | undefined {
+    const best = candidates[0];
+    if (best) {
+      return { model: best.model };
+    }
+
+    const plausibleAddress = (datapoint: 'regime' | 'speed'): number | undefined => Object.values(MODEL_PROFILES)
+      .map(profile => profile.datapoints[datapoint]!)
+      .find(definition => {
+        const raw = this.rawValue(definition);
+        return raw !== undefined && PLAUSIBLE_VALUES[datapoint](decodeRegisterValue(raw, definition));
+      })?.address;
+
+    const regimeRegister = plausibleAddress('regime');
+    const speedRegister = plausibleAddress('speed');
+    if (regimeRegister === undefined || speedRegister === undefined) {
+      return undefined;
+    }
+    return { model: 'generic', regimeRegister, speedRegister };
+  }
+}
+
+/**
+ * Plain-text scan report for the log or a GitHub issue
+ */
+export function formatScanReport(report: ScanReport): string {
+  const { controllerType, firmwareVersion } = report.identification;
+  const lines = [
+    'ATREA register scan',
+    `Started:     ${report.startedAt}`,
+    `Connection:  ${report.connection}`,
+    `Duration:    ${Math.round(report.duration / 1000)} s${report.deviceBusy ? `, ${report.deviceBusy} device busy answers` : ''}`,
+    `Controller:  ${controllerType ?? 'unknown'}, firmware ${firmwareVersion ?? 'unknown'}`,
+    '',
+    'Proposed configuration:',
+    report.proposal ? `  ${JSON.stringify(report.proposal)}` : '  none - no regime and speed registers found',
+    '',
+    'Matching profiles:',
+  ];
+
+  if (report.candidates.length === 0) {
+    lines.push('  none');
+  }
+  report.candidates.forEach(candidate => {
+    const total = candidate.matched.length + candidate.implausible.length + candidate.missing.length;
+    const controller = candidate.identified === undefined ? '' : candidate.identified ? ', controller type matches' : ', other controller';
+    lines.push(`  ${candidate.model} (${candidate.name}): ${candidate.matched.length}/${total} datapoints${controller}`);
+    if (candidate.implausible.length > 0) {
+      lines.push(`    implausible values: ${candidate.implausible.join(', ')}`);
+    }
+    if (candidate.missing.length > 0) {
+      lines.push(`    not answering: ${candidate.missing.join(', ')}`);
+    }
+  });
+
+  lines.push('', 'Registers:', '  type     address  status       raw    datapoints');
+  report.probes.forEach(probe => {
+    const status = probe.code !== undefined ? `${probe.status} (${probe.code})` : probe.status;
+    lines.push(`  ${probe.type.padEnd(8)} ${String(probe.address).padEnd(8)} ${status.padEnd(12)} ${String(probe.raw ?? '-').padEnd(6)} ${
+      probe.datapoints.join(', ')}`.trimEnd());
+  });
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,65 @@
+import { RegimeName } from './profiles';
+
+/**
+ * Weekly schedule evaluated by the platform.
+ *
+ * A schedule point is applied once, in the minute its time is reached. Manual changes made
+ * between two points stay in effect until the next point.
+ */
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+// Indexed by Date.getDay()
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export interface SchedulePoint {
+  days?: Weekday[];
+  time: string;
+  regime?: RegimeName;
+  speed?: number;
+}
+
+/**
+ * Parse "HH:MM" into minutes since midnight
+ */
+export function parseScheduleTime(time: string): number | undefined {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+}
+
+function appliesOn(point: SchedulePoint, day: Weekday): boolean {
+  return !point.days || point.days.length === 0 || point.days.includes(day);
+}
+
+/**
+ * The point scheduled for exactly this minute; when several match, the last one in the list wins
+ */
+export function findDuePoint(points: SchedulePoint[], date: Date): SchedulePoint | undefined {
+  const day = WEEKDAYS[date.getDay()];
+  const minute = date.getHours() * 60 + date.getMinutes();
+  return points
+    .filter(point => appliesOn(point, day) && parseScheduleTime(point.time) === minute)
+    .pop();
+}
+
+/**
+ * The most recent point at or before this minute, looking back up to a week
+ */
+export function findCurrentPoint(points: SchedulePoint[], date: Date): SchedulePoint | undefined {
+  const minute = date.getHours() * 60 + date.getMinutes();
+
+  for (let daysBack = 0; daysBack <= 7; daysBack++) {
+    const day = WEEKDAYS[(date.getDay() - daysBack + 7) % 7];
+    const candidates = points
+      .map(point => ({ point, at: parseScheduleTime(point.time) }))
+      .filter(({ point, at }) => at !== undefined && appliesOn(point, day) && (daysBack > 0 || at <= minute))
+      // Stable sort keeps list order for points at the same time, so the last one wins as in findDuePoint
+      .sort((a, b) => a.at! - b.at!);
+
+    if (candidates.length > 0) {
+      return candidates[candidates.length - 1].point;
+    }
+  }
+
+  return undefined;
+}
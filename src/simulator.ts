@@ -0,0 +1,278 @@
+import ModbusRTU from 'modbus-serial';
+import { ILLEGAL_DATA_ADDRESS, ModbusClient, SLAVE_DEVICE_BUSY } from './modbusTransport';
+import {
+  BYPASS_MODES, DatapointName, HEATING_COOLING_STATES, REGIMES, RegisterMap, RegisterType, decodeRegisterValue, encodeRegisterValue,
+} from './profiles';
+
+/**
+ * In-process model of an ATREA unit, used instead of a Modbus connection when `simulate` is enabled.
+ *
+ * It answers on the addresses of the configured register map, so the whole accessory stack
+ * (queue, throttling, caching, busy backoff) runs exactly as against real hardware.
+ */
+
+type ReadRegisterResult = Awaited<ReturnType<ModbusRTU['readHoldingRegisters']>>;
+type WriteRegisterResult = Awaited<ReturnType<ModbusRTU['writeRegister']>>;
+
+const FILTER_LIFETIME_DAYS = 90;
+// Accelerated so a filter change shows up during a demo: one filter day per 10 minutes of fan operation
+const FILTER_DAY_MS = 600000;
+// Ramp rate of the fans towards the requested power, in % per second
+const SPEED_RAMP_PER_SECOND = 5;
+const RESPONSE_DELAY_MS = 50;
+const CONTROLLER_TYPE = 5;
+const FIRMWARE_VERSION = 312;
+
+export interface SimulatorOptions {
+  // Probability of answering a request with exception 6 "device busy"
+  busyRate?: number;
+  // Speed register value of full fan power, e.g. the nominal airflow when the register is in m³/h
+  maxSpeed?: number;
+}
+
+class SimulatorError extends Error {
+  constructor(message: string, public readonly modbusCode: number) {
+    super(message);
+    this.name = 'SimulatorError';
+  }
+}
+
+export class SimulatedUnit implements ModbusClient {
+  private regime: number = REGIMES.ventilation.value;
+  // Fan power in %, scaled to the speed register range on reads and writes
+  private requestedSpeed: number = 40;
+  private actualSpeed: number = 40;
+  private bypassControl: number = BYPASS_MODES.automatic.value;
+  private temperatureSetpoint: number = 18;
+  private filterRunTime: number = 0;
+  private lastUpdate: number = Date.now();
+  private connected: boolean = false;
+  private readonly busyRate: number;
+  private readonly maxSpeed: number;
+
+  constructor(
+    private readonly registers: RegisterMap,
+    options: SimulatorOptions = {},
+  ) {
+    this.busyRate = options.busyRate ?? 0.03;
+    this.maxSpeed = options.maxSpeed ?? 100;
+  }
+
+  connect(): Promise<void> {
+    this.connected = true;
+    this.lastUpdate = Date.now();
+    return Promise.resolve();
+  }
+
+  close(callback?: () => void): void {
+    this.connected = false;
+    callback?.();
+  }
+
+  setID(): void {
+    // Single simulated unit, any unit ID answers
+  }
+
+  setTimeout(): void {
+    // Answers arrive well within any timeout
+  }
+
+  readHoldingRegisters(address: number, length: number): Promise<ReadRegisterResult> {
+    return this.respond(() => this.readBlock('holding', address, length));
+  }
+
+  readInputRegisters(address: number, length: number): Promise<ReadRegisterResult> {
+    return this.respond(() => this.readBlock('input', address, length));
+  }
+
+  writeRegister(address: number, value: number): Promise<WriteRegisterResult> {
+    return this.respond(() => {
+      const datapoint = this.findDatapoint('holding', address);
+      if (!datapoint || !this.writeDatapoint(datapoint, value)) {
+        throw new SimulatorError(`Illegal data address ${address}`, ILLEGAL_DATA_ADDRESS);
+      }
+      return { address, value };
+    });
+  }
+
+  private respond<T>(handler: () => T): Promise<T> {
+    return new Promise((resolve, reject) => {
+      setTimeout(() => {
+        if (!this.connected) {
+          reject(new Error('Port Not Open'));
+          return;
+        }
+        if (Math.random() < this.busyRate) {
+          reject(new SimulatorError('Slave device busy', SLAVE_DEVICE_BUSY));
+          return;
+        }
+        try {
+          this.update();
+          resolve(handler());
+        } catch (error) {
+          reject(error);
+        }
+      }, RESPONSE_DELAY_MS);
+    });
+  }
+
+  private readBlock(type: RegisterType, address: number, length: number): ReadRegisterResult {
+    const data: number[] = [];
+    for (let offset = 0; offset < length; offset++) {
+      const datapoint = this.findDatapoint(type, address + offset);
+      if (!datapoint) {
+        throw new SimulatorError(`Illegal data address ${address + offset}`, ILLEGAL_DATA_ADDRESS);
+      }
+      data.push(encodeRegisterValue(this.readValue(datapoint), this.registers[datapoint]!));
+    }
+
+    const buffer = Buffer.alloc(data.length * 2);
+    data.forEach((value, index) => buffer.writeUInt16BE(value, index * 2));
+    return { data, buffer };
+  }
+
+  private findDatapoint(type: RegisterType, address: number): DatapointName | undefined {
+    return (Object.keys(this.registers) as DatapointName[])
+      .find(name => this.registers[name]!.type === type && this.registers[name]!.address === address);
+  }
+
+  private writeDatapoint(datapoint: DatapointName, raw: number): boolean {
+    const value = decodeRegisterValue(raw, this.registers[datapoint]!);
+    switch (datapoint) {
+      case 'regime':
+        if (!Object.values(REGIMES).some(regime => regime.value === value)) {
+          return false;
+        }
+        this.regime = value;
+        return true;
+      case 'speed':
+        this.requestedSpeed = (Math.min(Math.max(value, 0), this.maxSpeed) / this.maxSpeed) * 100;
+        return true;
+      case 'bypassControl':
+        this.bypassControl = value;
+        return true;
+      case 'filterReset':
+        if (value === 1) {
+          this.filterRunTime = 0;
+        }
+        return true;
+      case 'temperatureSetpoint':
+        this.temperatureSetpoint = Math.min(Math.max(value, 10), 40);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Advance the model to the current time: ramp the fans and count filter run time
+   */
+  private update(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastUpdate;
+    this.lastUpdate = now;
+
+    const target = this.regime === REGIMES.off.value ? 0 : this.requestedSpeed;
+    const ramp = (elapsed / 1000) * SPEED_RAMP_PER_SECOND;
+    this.actualSpeed = this.actualSpeed < target
+      ? Math.min(this.actualSpeed + ramp, target)
+      : Math.max(this.actualSpeed - ramp, target);
+
+    if (this.actualSpeed > 0) {
+      this.filterRunTime += elapsed;
+    }
+  }
+
+  // Outdoor temperature follows the time of day: coldest at 4:00, warmest at 16:00
+  private get outdoorTemperature(): number {
+    const now = new Date();
+    const hours = now.getHours() + now.getMinutes() / 60;
+    return 2 + 7 * Math.sin(((hours - 10) / 24) * 2 * Math.PI);
+  }
+
+  private get indoorTemperature(): number {
+    return 22 + (this.actualSpeed / 100) * 0.5 * Math.sign(this.outdoorTemperature - 22);
+  }
+
+  private get bypassOpen(): boolean {
+    if (this.bypassControl === BYPASS_MODES.open.value) {
+      return true;
+    }
+    if (this.bypassControl === BYPASS_MODES.closed.value) {
+      return false;
+    }
+    // Free cooling when it is warm inside and cooler outside
+    return this.indoorTemperature > 24 && this.outdoorTemperature < this.indoorTemperature;
+  }
+
+  private get heatRecovery(): number {
+    return this.actualSpeed > 0 && !this.bypassOpen ? 0.85 : 0;
+  }
+
+  // Supply air after the heat exchanger, before the heater
+  private get recoveredTemperature(): number {
+    const extract = this.indoorTemperature + 0.5;
+    return this.outdoorTemperature + this.heatRecovery * (extract - this.outdoorTemperature);
+  }
+
+  // The unit has a heater only; it tops the supply air up to the setpoint
+  private get heating(): boolean {
+    return this.actualSpeed > 0 && this.recoveredTemperature < this.temperatureSetpoint;
+  }
+
+  private get filterRemainingDays(): number {
+    return Math.max(FILTER_LIFETIME_DAYS - Math.floor(this.filterRunTime / FILTER_DAY_MS), 0);
+  }
+
+  private get alarms(): number {
+    // Frost protection of the heat exchanger in hard frost
+    return this.actualSpeed > 0 && this.outdoorTemperature < -3 ? 1 << 0 : 0;
+  }
+
+  private get warnings(): number {
+    let warnings = 0;
+    if (this.filterRemainingDays === 0) {
+      warnings |= 1 << 0;
+    }
+    if (this.actualSpeed > 0 && this.outdoorTemperature < 0) {
+      warnings |= 1 << 1;
+    }
+    return warnings;
+  }
+
+  private get carbonDioxide(): number {
+    // Occupied home: CO2 settles lower the more the unit ventilates
+    return 450 + 900 * (1 - this.actualSpeed / 100);
+  }
+
+  private readValue(datapoint: DatapointName): number {
+    const round = (value: number) => Math.round(value * 10) / 10;
+    const outdoor = this.outdoorTemperature;
+    const extract = this.indoorTemperature + 0.5;
+
+    switch (datapoint) {
+      case 'regime': return this.regime;
+      case 'speed': return Math.round((this.actualSpeed / 100) * this.maxSpeed);
+      case 'outdoorTemperature': return round(outdoor);
+      case 'supplyTemperature': return round(this.heating ? this.temperatureSetpoint : this.recoveredTemperature);
+      case 'extractTemperature': return round(extract);
+      case 'exhaustTemperature': return round(extract - this.heatRecovery * (extract - outdoor));
+      case 'indoorTemperature': return round(this.indoorTemperature);
+      // 0-10 V sensor with 0-2000 ppm range, reported in mV
+      case 'analogInput1': return Math.round(this.carbonDioxide * 5);
+      case 'analogInput2': return 0;
+      case 'humidity': return Math.round(45 + 10 * (1 - this.actualSpeed / 100));
+      case 'alarms': return this.alarms;
+      case 'warnings': return this.warnings;
+      case 'filterWarning': return this.filterRemainingDays === 0 ? 1 : 0;
+      case 'filterRemainingDays': return this.filterRemainingDays;
+      case 'filterReset': return 0;
+      case 'bypassState': return this.bypassOpen ? 1 : 0;
+      case 'bypassControl': return this.bypassControl;
+      case 'temperatureSetpoint': return this.temperatureSetpoint;
+      case 'heatingCoolingState': return this.heating ? HEATING_COOLING_STATES.heating : HEATING_COOLING_STATES.idle;
+      case 'controllerType': return CONTROLLER_TYPE;
+      case 'firmwareVersion': return FIRMWARE_VERSION;
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { SpeedRangeSettings } from './platform';
+
+/**
+ * Mapping between HomeKit rotation speed and the unit's speed register.
+ *
+ * HomeKit 0 % is stopped; the rest of the slider is split evenly between the unit's allowed values
+ * min, min + step, ..., max (or step, 2 × step, ..., max when min is 0).
+ */
+
+export function speedLevels({ min, max, step }: SpeedRangeSettings): number[] {
+  const levels: number[] = [];
+  for (let value = min > 0 ? min : step; value < max; value += step) {
+    levels.push(value);
+  }
+  levels.push(max);
+  return levels;
+}
+
+/**
+ * Speed register value for a HomeKit percent
+ */
+export function percentToSpeed(range: SpeedRangeSettings, percent: number): number {
+  if (percent <= 0) {
+    return 0;
+  }
+  const levels = speedLevels(range);
+  const index = Math.min(Math.max(Math.round((percent / 100) * levels.length), 1), levels.length);
+  return levels[index - 1];
+}
+
+/**
+ * HomeKit percent for a speed register value
+ */
+export function speedToPercent(range: SpeedRangeSettings, speed: number): number {
+  if (speed <= 0) {
+    return 0;
+  }
+  const levels = speedLevels(range);
+  // Values between allowed levels (set from the wall panel) snap to the nearest level
+  const index = levels.reduce((best, level, i) => Math.abs(level - speed) < Math.abs(levels[best] - speed) ? i : best, 0);
+  return Math.round(((index + 1) / levels.length) * 100 * 1000) / 1000;
+}
+
+export function describeSpeed(range: SpeedRangeSettings, speed: number): string {
+  return range.unit === 'm3h' ? `${speed} m³/h` : `${speed}%`;
+}
@@ -0,0 +1,11 @@
+/**
+ * Types of worker-timers, which mqtt uses for its keepalive in browsers. The package's own declarations
+ * are written against the DOM library (Worker, MessagePort, Transferable) that this Node project does not
+ * load; tsconfig maps the module here instead. The signatures are those of worker-timers 8.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any, @typescript-eslint/ban-types */
+export declare function clearInterval(timerId: number): void;
+export declare function clearTimeout(timerId: number): void;
+export declare function setInterval(func: Function, delay?: number, ...args: any[]): number;
+export declare function setTimeout(func: Function, delay?: number, ...args: any[]): number;